@@ -1,11 +1,52 @@
 import WebSocket, { WebSocketServer } from 'ws';
+import type { IncomingMessage } from 'http';
+import { randomInt } from 'crypto';
 
-const wss = new WebSocketServer({ port: 3000 });
-const rooms = new Map<string, {
+// ルームコード・総当たり対策の設定（環境変数で変更可能）
+const ROOM_CODE_LENGTH = Number(process.env.ROOM_CODE_LENGTH) || 6;
+const ROOM_CODE_ALPHABET = process.env.ROOM_CODE_ALPHABET || '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'; // 紛らわしい 0/O/1/I を除外
+const ROOM_TTL_MS = Number(process.env.ROOM_TTL_MS) || 30 * 60 * 1000; // 発行から参加受付を締め切るまで
+const JOIN_MAX_FAILURES = Number(process.env.JOIN_MAX_FAILURES) || 5; // JOIN_WINDOW_MS 内に許す失敗回数
+const JOIN_WINDOW_MS = Number(process.env.JOIN_WINDOW_MS) || 60 * 1000;
+const JOIN_LOCKOUT_MS = Number(process.env.JOIN_LOCKOUT_MS) || 5 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_CODE_GENERATION_ATTEMPTS = 100;
+const MAX_PENDING_JOINS = 10; // 承認待ちにできる参加者数（ルームごと）
+const MAX_PENDING_JOINS_PER_IP = Number(process.env.MAX_PENDING_JOINS_PER_IP) || 5; // 1つのIPが同じルームで承認待ちにできる数（承認一覧の占有を防ぐ、同じNAT配下の複数人を考慮）
+const JOIN_REQUEST_INTERVAL_MS = Number(process.env.JOIN_REQUEST_INTERVAL_MS) || 10 * 1000; // 拒否・失敗した後、同じIPから再申請できるまでの間隔
+const MAX_PEER_LABEL_LENGTH = 64; // 自己申告の名前・端末情報の最大長
+
+// 受信側の承認待ちの参加者
+interface PendingJoin {
+  joinId: number;
+  ws: WebSocket;
+  ip: string;
+  name: string;
+  device: string;
+  decide: (approved: boolean) => void; // 参加者側の接続状態を更新
+}
+
+interface Room {
+  code: string;
   host: WebSocket;
-  clients: WebSocket[];
+  clients: Map<number, WebSocket>; // 参加済みクライアント（シグナリングは clientId 宛てに中継する）
+  pending: Map<number, PendingJoin>;
   hostId: number;
-}>();
+  expiresAt: number;
+  expiryNotified: boolean;
+}
+
+// IPごとの参加失敗履歴
+interface JoinAttempts {
+  failures: number[];
+  lockedUntil: number;
+  lastFailureAt: number; // 最後に拒否・失敗した時刻（成功した申請は間隔の制限に数えない）
+}
+
+const wss = new WebSocketServer({ port: 3000 });
+const rooms = new Map<string, Room>();
+const joinAttempts = new Map<string, JoinAttempts>();
+let nextJoinId = 1;
 
 interface MessageData {
   type: string;
@@ -14,85 +55,338 @@ interface MessageData {
   [key: string]: any;
 }
 
-// 4桁OTP生成
-function generateOTP(): string {
-  return Math.floor(1000 + Math.random() * 9000).toString();
+// ルームコード生成（CSPRNG、既存ルームと重複しないもの）
+function generateRoomCode(): string | null {
+  for (let attempt = 0; attempt < MAX_CODE_GENERATION_ATTEMPTS; attempt++) {
+    let code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+    }
+    if (!rooms.has(code)) {
+      return code;
+    }
+  }
+  return null;
+}
+
+// 入力されたコードを正規化（形式が違うものはnull）
+function normalizeRoomCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+
+  const normalized = code.trim().toUpperCase();
+  if (normalized.length !== ROOM_CODE_LENGTH) return null;
+  for (const char of normalized) {
+    if (!ROOM_CODE_ALPHABET.includes(char)) return null;
+  }
+  return normalized;
+}
+
+// ロック中なら解除時刻を返す
+function getLockout(ip: string): number | null {
+  const attempts = joinAttempts.get(ip);
+  return attempts && attempts.lockedUntil > Date.now() ? attempts.lockedUntil : null;
+}
+
+// 参加失敗を記録し、上限に達したらロックする
+function recordJoinFailure(ip: string): void {
+  const now = Date.now();
+  const attempts = joinAttempts.get(ip) || { failures: [], lockedUntil: 0, lastFailureAt: 0 };
+  attempts.failures = attempts.failures.filter(time => now - time < JOIN_WINDOW_MS);
+  attempts.failures.push(now);
+  attempts.lastFailureAt = now;
+
+  if (attempts.failures.length >= JOIN_MAX_FAILURES) {
+    attempts.lockedUntil = now + JOIN_LOCKOUT_MS;
+    attempts.failures = [];
+    console.log(`参加試行ロック: ${ip}（${JOIN_LOCKOUT_MS / 1000}秒）`);
+  }
+  joinAttempts.set(ip, attempts);
+}
+
+// 拒否・失敗の直後なら再申請まで待つべきミリ秒数を返す（拒否された直後の再申請で承認一覧を埋めさせない）
+function getJoinRequestWait(ip: string): number {
+  const attempts = joinAttempts.get(ip);
+  if (!attempts) return 0;
+  return Math.max(0, attempts.lastFailureAt + JOIN_REQUEST_INTERVAL_MS - Date.now());
 }
 
+// 自己申告の文字列を整える（表示用、制御文字を除いて切り詰める）
+function sanitizeLabel(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const label = value.replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, MAX_PEER_LABEL_LENGTH);
+  return label || fallback;
+}
+
+function send(ws: WebSocket, data: MessageData): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(data));
+  }
+}
+
+// 期限切れルーム・古い失敗履歴の掃除
+// 参加済みのクライアントがいるルームはICE再起動のシグナリングに使うため残し、新規参加だけ締め切る
+setInterval(() => {
+  const now = Date.now();
+
+  rooms.forEach((room, code) => {
+    if (room.expiresAt > now) return;
+
+    if (!room.expiryNotified) {
+      room.expiryNotified = true;
+      send(room.host, { type: 'room-expired', roomCode: code });
+      console.log(`ルーム期限切れ: ${code}`);
+    }
+    room.clients.forEach((client, clientId) => {
+      if (client.readyState !== WebSocket.OPEN) room.clients.delete(clientId);
+    });
+    if (room.clients.size === 0) {
+      rooms.delete(code);
+      console.log(`ルーム削除: ${code}`);
+    }
+  });
+
+  joinAttempts.forEach((attempts, ip) => {
+    if (attempts.lockedUntil <= now && now - attempts.lastFailureAt >= JOIN_REQUEST_INTERVAL_MS &&
+        attempts.failures.every(time => now - time >= JOIN_WINDOW_MS)) {
+      joinAttempts.delete(ip);
+    }
+  });
+}, SWEEP_INTERVAL_MS);
+
 // クライアント接続処理
-wss.on('connection', (ws: WebSocket) => {
-  console.log('クライアント接続');
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+  const ip = req.socket.remoteAddress || 'unknown';
+  console.log(`クライアント接続: ${ip}`);
 
-  let roomCode: string | null = null;
+  let room: Room | null = null;
   let isHost = false;
+  let pendingJoin: { room: Room; joinId: number } | null = null; // 承認待ちの参加申請
+  let clientId: number | null = null; // 承認後の自分のID（参加申請のIDを引き継ぐ）
+
+  // 入力欄の検証用にコード形式を通知
+  send(ws, {
+    type: 'config',
+    roomCodeLength: ROOM_CODE_LENGTH,
+    roomCodeAlphabet: ROOM_CODE_ALPHABET
+  });
 
   // メッセージ処理
   ws.on('message', (message: WebSocket.Data) => {
-    const data: MessageData = JSON.parse(message.toString());
+    // 不正な形式のメッセージで全ルームを巻き込んで落ちないよう、解析できないものは無視する
+    let data: MessageData;
+    try {
+      data = JSON.parse(message.toString());
+    } catch (error) {
+      console.warn('不正な形式のメッセージを無視しました');
+      return;
+    }
+    if (!data || typeof data !== 'object') return;
 
     switch (data.type) {
-      case 'create-room':
-        roomCode = generateOTP();
-        isHost = true;
+      case 'create-room': {
+        if (room) break;
+
+        const code = generateRoomCode();
+        if (!code) {
+          send(ws, { type: 'error', message: 'ルームコードを発行できませんでした。しばらくしてから再度お試しください' });
+          break;
+        }
 
-        rooms.set(roomCode, {
+        isHost = true;
+        room = {
+          code,
           host: ws,
-          clients: [],
-          hostId: Date.now()
-        });
+          clients: new Map(),
+          pending: new Map(),
+          hostId: Date.now(),
+          expiresAt: Date.now() + ROOM_TTL_MS,
+          expiryNotified: false
+        };
+        rooms.set(code, room);
 
-        ws.send(JSON.stringify({
+        send(ws, {
           type: 'room-created',
-          roomCode: roomCode
-        }));
+          roomCode: code,
+          expiresAt: room.expiresAt
+        });
 
-        console.log(`ルーム作成: ${roomCode}`);
+        console.log(`ルーム作成: ${code}`);
         break;
+      }
 
-      case 'join-room':
-        if (!data.roomCode) break;
+      case 'regenerate-room': {
+        // 受信側がコードを再発行（古いコードは即座に無効）
+        if (!room || !isHost) break;
 
-        const room = rooms.get(data.roomCode);
+        const code = generateRoomCode();
+        if (!code) {
+          send(ws, { type: 'error', message: 'ルームコードを再発行できませんでした' });
+          break;
+        }
 
-        if (room && room.host.readyState === WebSocket.OPEN) {
-          roomCode = data.roomCode;
-          room.clients.push(ws);
+        const oldCode = room.code;
+        if (rooms.get(oldCode) === room) {
+          rooms.delete(oldCode);
+        }
+        room.code = code;
+        room.expiresAt = Date.now() + ROOM_TTL_MS;
+        room.expiryNotified = false;
+        rooms.set(code, room);
 
-          ws.send(JSON.stringify({
-            type: 'room-joined',
-            roomCode: data.roomCode
-          }));
+        send(ws, {
+          type: 'room-regenerated',
+          roomCode: code,
+          expiresAt: room.expiresAt
+        });
+        // 参加済みのクライアントは暗号鍵の導出にコードを使うため追従させる
+        room.clients.forEach(client => send(client, { type: 'room-code-changed', roomCode: code }));
 
-          room.host.send(JSON.stringify({
-            type: 'client-joined',
-            clientId: Date.now()
-          }));
+        console.log(`ルームコード再発行: ${oldCode} → ${code}`);
+        break;
+      }
+
+      case 'join-room': {
+        if (room || pendingJoin) break;
+
+        const lockedUntil = getLockout(ip);
+        if (lockedUntil) {
+          send(ws, {
+            type: 'error',
+            message: `参加の試行回数が多すぎます。${Math.ceil((lockedUntil - Date.now()) / 1000)}秒後に再度お試しください`
+          });
+          break;
+        }
+
+        const code = normalizeRoomCode(data.roomCode);
+        const target = code ? rooms.get(code) : undefined;
+
+        if (target && target.host.readyState === WebSocket.OPEN && target.expiresAt > Date.now()) {
+          if (target.pending.size >= MAX_PENDING_JOINS) {
+            send(ws, { type: 'error', message: '承認待ちの参加者が多すぎます。しばらくしてから再度お試しください' });
+            break;
+          }
+
+          // 拒否・失敗直後の再申請と、同じIPによる承認一覧の占有を抑える
+          const wait = getJoinRequestWait(ip);
+          const pendingFromIp = Array.from(target.pending.values()).filter(pending => pending.ip === ip).length;
+          if (pendingFromIp >= MAX_PENDING_JOINS_PER_IP) {
+            send(ws, { type: 'error', message: 'このネットワークからの承認待ちの参加申請が多すぎます。承認を待ってから再度お試しください' });
+            break;
+          }
+          if (wait > 0) {
+            send(ws, { type: 'error', message: `直前の参加申請が受け付けられませんでした。${Math.ceil(wait / 1000)}秒後に再度お試しください` });
+            break;
+          }
+
+          // 受信側が承認するまでシグナリングは中継しない
+          const request: PendingJoin = {
+            joinId: nextJoinId++,
+            ws,
+            ip,
+            name: sanitizeLabel(data.name, '名前なし'),
+            device: sanitizeLabel(data.device, '不明な端末'),
+            decide: (approved: boolean) => {
+              pendingJoin = null;
+              if (approved) {
+                room = target;
+                clientId = request.joinId;
+              }
+            }
+          };
+          target.pending.set(request.joinId, request);
+          pendingJoin = { room: target, joinId: request.joinId };
+
+          send(ws, {
+            type: 'join-pending',
+            roomCode: target.code
+          });
+
+          send(target.host, {
+            type: 'join-request',
+            joinId: request.joinId,
+            name: request.name,
+            device: request.device,
+            ip
+          });
 
-          console.log(`クライアント参加: ${data.roomCode}`);
+          console.log(`参加申請: ${target.code} (#${request.joinId} ${request.name} / ${request.device})`);
         } else {
-          ws.send(JSON.stringify({
+          // 形式違い・存在しない・期限切れは区別せず失敗として数える
+          recordJoinFailure(ip);
+          send(ws, {
             type: 'error',
             message: '無効なルームコードです'
-          }));
+          });
         }
         break;
+      }
+
+      case 'approve-join':
+      case 'reject-join': {
+        if (!room || !isHost) break;
+
+        const request = room.pending.get(data.joinId);
+        if (!request) break;
+        room.pending.delete(request.joinId);
+
+        if (request.ws.readyState !== WebSocket.OPEN) break;
+
+        const approved = data.type === 'approve-join';
+        request.decide(approved);
+        if (approved) {
+          // 先に参加している受信者とは互いに知らせ合う（チャンク交換の接続はスウォーム配布中に受信者同士で張る）
+          const peers = Array.from(room.clients.keys());
+          room.clients.forEach(client => send(client, { type: 'swarm-peer-joined', clientId: request.joinId }));
+          room.clients.set(request.joinId, request.ws);
+
+          send(request.ws, {
+            type: 'room-joined',
+            roomCode: room.code,
+            clientId: request.joinId,
+            peers
+          });
+
+          send(room.host, {
+            type: 'client-joined',
+            clientId: request.joinId
+          });
+
+          console.log(`クライアント参加: ${room.code} (#${request.joinId})`);
+        } else {
+          // 拒否も参加失敗として数え、繰り返す相手をロックする
+          recordJoinFailure(request.ip);
+          send(request.ws, {
+            type: 'join-rejected',
+            message: '受信側が参加を拒否しました'
+          });
+
+          console.log(`参加拒否: ${room.code} (#${request.joinId})`);
+        }
+        break;
+      }
 
       case 'offer':
       case 'answer':
       case 'ice-candidate':
-        // シグナリングデータ転送
-        if (roomCode) {
-          const targetRoom = rooms.get(roomCode);
-          if (targetRoom) {
-            const targets = isHost ? targetRoom.clients : [targetRoom.host];
-            targets.forEach(target => {
-              if (target.readyState === WebSocket.OPEN) {
-                target.send(JSON.stringify(data));
-              }
-            });
+        // シグナリングデータ転送（ホスト→指定したクライアント / クライアント→ホスト、送信元のIDを付ける）
+        if (room) {
+          if (isHost) {
+            const target = data.clientId !== undefined ? room.clients.get(data.clientId) : undefined;
+            if (target) send(target, data);
+          } else if (clientId !== null) {
+            send(room.host, { ...data, clientId });
           }
         }
         break;
+
+      case 'swarm-signal': {
+        // 受信者同士のメッシュ接続用シグナリング（同じルームのクライアント間のみ中継）
+        if (!room || isHost || clientId === null) break;
+
+        const target = room.clients.get(data.to);
+        if (target) send(target, { type: 'swarm-signal', from: clientId, signal: data.signal });
+        break;
+      }
     }
   });
 
@@ -100,11 +394,31 @@ wss.on('connection', (ws: WebSocket) => {
   ws.on('close', () => {
     console.log('クライアント切断');
 
-    if (roomCode && isHost) {
-      rooms.delete(roomCode);
-      console.log(`ルーム削除: ${roomCode}`);
+    // 承認待ちのまま切断したら受信側の申請一覧から消す
+    if (pendingJoin && pendingJoin.room.pending.delete(pendingJoin.joinId)) {
+      send(pendingJoin.room.host, { type: 'join-cancelled', joinId: pendingJoin.joinId });
+    }
+
+    if (!room) return;
+
+    if (isHost) {
+      if (rooms.get(room.code) === room) {
+        rooms.delete(room.code);
+        console.log(`ルーム削除: ${room.code}`);
+      }
+      room.pending.forEach(request => {
+        request.decide(false);
+        send(request.ws, { type: 'join-rejected', message: '受信側がルームを閉じました' });
+      });
+      room.pending.clear();
+    } else if (clientId !== null && room.clients.get(clientId) === ws) {
+      room.clients.delete(clientId);
+      send(room.host, { type: 'client-left', clientId });
+      const leftId = clientId;
+      room.clients.forEach(client => send(client, { type: 'swarm-peer-left', clientId: leftId }));
+      console.log(`クライアント退出: ${room.code} (#${clientId})`);
     }
   });
 });
 
-console.log(`シグナリングサーバー起動: ws://localhost:3000`);
\ No newline at end of file
+console.log(`シグナリングサーバー起動: ws://localhost:3000（ルームコード ${ROOM_CODE_LENGTH}文字、有効期限 ${ROOM_TTL_MS / 60000}分）`);
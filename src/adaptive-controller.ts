@@ -0,0 +1,145 @@
+/**
+ * 適応型転送制御
+ * RTCPeerConnectionの統計（RTT・送信バイト数・利用可能帯域）から
+ * サブチャンクサイズ・同時送信数・送信バッファ閾値を転送中に調整する
+ */
+import type { AdaptiveDecision, AdaptiveSettings } from './types.js';
+
+// メインチャンク(50MB)を割り切れるサイズのみ（受信側は index × サイズ で配置するため）
+const SUB_CHUNK_SIZES = [128 * 1024, 256 * 1024, 512 * 1024, 1024 * 1024, 2 * 1024 * 1024];
+const MIN_BUFFER_THRESHOLD = 1 * 1024 * 1024;
+const MAX_BUFFER_THRESHOLD = 64 * 1024 * 1024;
+const MIN_CONCURRENT_SENDS = 1;
+const MAX_CONCURRENT_SENDS = 8;
+const TARGET_CHUNK_DURATION = 0.05; // 1サブチャンクを約50msで送れるサイズを目標にする
+const FRAME_HEADER_SIZE = 32; // wire-format.ts のフレームヘッダー
+
+interface PathStats {
+    rtt: number | null;              // 秒
+    bytesSent: number;
+    availableBitrate: number | null; // bps
+    timestamp: number;               // ms
+}
+
+class AdaptiveController {
+    private pc: RTCPeerConnection;
+    public maxMessageSize: number = 0; // helloで交渉した最大メッセージサイズ（0なら接続の値を使う）
+    private lastBytesSent: number | null = null;
+    private lastTimestamp: number | null = null;
+
+    constructor(pc: RTCPeerConnection) {
+        this.pc = pc;
+    }
+
+    /**
+     * 統計を1回取得して次の設定を決める
+     */
+    async sample(current: AdaptiveSettings, bufferedAmount: number): Promise<AdaptiveDecision> {
+        const stats = await this.readPathStats();
+
+        // 前回サンプルからの実測送信レート
+        let sendRate = 0;
+        if (this.lastBytesSent !== null && this.lastTimestamp !== null && stats.timestamp > this.lastTimestamp) {
+            sendRate = (stats.bytesSent - this.lastBytesSent) / ((stats.timestamp - this.lastTimestamp) / 1000);
+        }
+        this.lastBytesSent = stats.bytesSent;
+        this.lastTimestamp = stats.timestamp;
+
+        // 帯域推定: 輻輳制御の推定値（availableOutgoingBitrate）が取れればそれ、無ければ実測値
+        const bandwidth = stats.availableBitrate !== null
+            ? Math.max(stats.availableBitrate / 8, sendRate)
+            : sendRate;
+
+        const reasons: string[] = [];
+        let { subChunkSize, maxConcurrentSends, bufferThreshold } = current;
+
+        if (bandwidth > 0 && stats.rtt !== null) {
+            // 帯域遅延積(BDP)の2倍を送信バッファに確保して回線を埋め続ける
+            const bdp = bandwidth * stats.rtt;
+            const threshold = Math.min(Math.max(Math.ceil(2 * bdp / MIN_BUFFER_THRESHOLD) * MIN_BUFFER_THRESHOLD, MIN_BUFFER_THRESHOLD), MAX_BUFFER_THRESHOLD);
+            if (threshold !== bufferThreshold) {
+                reasons.push(`BDP ${this.formatBytes(bdp)} → バッファ閾値 ${this.formatBytes(threshold)}`);
+                bufferThreshold = threshold;
+            }
+
+            // 帯域が広いほど大きなサブチャンクでメタデータ・ACK・ハッシュのオーバーヘッドを減らす
+            const size = this.chooseSubChunkSize(bandwidth);
+            if (size !== null && size !== subChunkSize) {
+                reasons.push(`帯域 ${this.formatBytes(bandwidth)}/s → サブチャンク ${this.formatBytes(size)}（次のファイルから）`);
+                subChunkSize = size;
+            }
+        }
+
+        // 送信バッファが空きがちなら読み込み・ハッシュが追いついていないので同時送信数を増やし、
+        // 飽和していれば先読みしても待つだけなので減らす
+        if (sendRate > 0 && bufferedAmount < bufferThreshold / 4 && maxConcurrentSends < MAX_CONCURRENT_SENDS) {
+            maxConcurrentSends++;
+            reasons.push(`送信バッファが空きがち → 同時送信数 ${maxConcurrentSends}`);
+        } else if (bufferedAmount >= bufferThreshold && maxConcurrentSends > MIN_CONCURRENT_SENDS) {
+            maxConcurrentSends--;
+            reasons.push(`送信バッファ飽和 → 同時送信数 ${maxConcurrentSends}`);
+        }
+
+        return {
+            timestamp: Date.now(),
+            rtt: stats.rtt !== null ? stats.rtt * 1000 : null,
+            sendRate: sendRate,
+            availableBitrate: stats.availableBitrate,
+            bufferedAmount: bufferedAmount,
+            subChunkSize: subChunkSize,
+            maxConcurrentSends: maxConcurrentSends,
+            bufferThreshold: bufferThreshold,
+            reason: reasons.length > 0 ? reasons.join(' / ') : '変更なし'
+        };
+    }
+
+    /**
+     * 選択中の候補ペアの統計を取得
+     */
+    private async readPathStats(): Promise<PathStats> {
+        const report = await this.pc.getStats();
+
+        let selectedPairId: string | null = null;
+        report.forEach(stat => {
+            if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+                selectedPairId = stat.selectedCandidatePairId;
+            }
+        });
+
+        let pair = null as RTCIceCandidatePairStats | null; // コールバック内で代入するため、nullに絞り込まれないよう型を指定
+        report.forEach(stat => {
+            if (stat.type !== 'candidate-pair') return;
+            const selected = selectedPairId !== null
+                ? stat.id === selectedPairId
+                : stat.nominated && stat.state === 'succeeded';
+            if (selected) pair = stat as RTCIceCandidatePairStats;
+        });
+
+        return {
+            rtt: typeof pair?.currentRoundTripTime === 'number' ? pair.currentRoundTripTime : null,
+            bytesSent: pair?.bytesSent || 0,
+            availableBitrate: typeof pair?.availableOutgoingBitrate === 'number' ? pair.availableOutgoingBitrate : null,
+            timestamp: pair?.timestamp || performance.now()
+        };
+    }
+
+    /**
+     * 帯域に合ったサブチャンクサイズ（交渉済み・SCTPの最大メッセージサイズに収まるもの）
+     */
+    private chooseSubChunkSize(bandwidth: number): number | null {
+        const maxMessageSize = this.maxMessageSize || this.pc.sctp?.maxMessageSize || Infinity;
+        const fitting = SUB_CHUNK_SIZES.filter(size => size + FRAME_HEADER_SIZE <= maxMessageSize);
+        if (fitting.length === 0) return null;
+
+        const wanted = bandwidth * TARGET_CHUNK_DURATION;
+        return fitting.filter(size => size <= wanted).pop() || fitting[0];
+    }
+
+    private formatBytes(bytes: number): string {
+        if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+        return `${Math.round(bytes / 1024)}KB`;
+    }
+}
+
+// グローバルエクスポート
+(window as any).AdaptiveController = AdaptiveController;
@@ -0,0 +1,57 @@
+/**
+ * サブチャンク単位の圧縮（CompressionStream）
+ * テキスト主体のデータ（ログ・CSV・ソースコード）向け。圧縮済みメディアは縮まないので送信側で判定して素通しする
+ */
+import type { ChunkCompressionFormat } from './types.js';
+
+/**
+ * ストリーム変換を通してArrayBufferで受け取る
+ */
+async function pipeChunk(data: ArrayBuffer, transform: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+    const stream = new Blob([data]).stream()
+        .pipeThrough(transform as ReadableWritablePair<Uint8Array, Uint8Array>);
+    return await new Response(stream).arrayBuffer();
+}
+
+/**
+ * サブチャンクを圧縮
+ */
+async function compressChunk(data: ArrayBuffer, format: ChunkCompressionFormat): Promise<ArrayBuffer> {
+    return await pipeChunk(data, new CompressionStream(format));
+}
+
+/**
+ * サブチャンクを展開（maxSizeを超える場合は不正なフレームとして例外）
+ * 展開爆弾でメモリを使い切らないよう、少しずつ読み進めて上限を超えた時点で中断する
+ */
+async function decompressChunk(data: ArrayBuffer, format: ChunkCompressionFormat, maxSize: number): Promise<ArrayBuffer> {
+    const reader = new Blob([data]).stream()
+        .pipeThrough(new DecompressionStream(format) as ReadableWritablePair<Uint8Array, Uint8Array>)
+        .getReader();
+
+    const parts: Uint8Array[] = [];
+    let total = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        total += value.byteLength;
+        if (total > maxSize) {
+            await reader.cancel().catch(() => {});
+            throw new Error(`展開後のサイズが上限を超えています（${total}B以上 > ${maxSize}B）`);
+        }
+        parts.push(value);
+    }
+
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.byteLength;
+    }
+    return result.buffer;
+}
+
+// グローバルエクスポート
+(window as any).compressChunk = compressChunk;
+(window as any).decompressChunk = decompressChunk;
@@ -2,19 +2,41 @@
  * 階層チャンクマネージャー
  * 100GBファイル転送用の高度なチャンク管理システム
  */
-import type { MainChunk, SubChunk } from './types.js';
+import type { MainChunk, SubChunk, SwarmShare, ChunkReader, BroadcastChunkSource as BroadcastChunkSourceInterface, BroadcastPeerState } from './types.js';
+
+// 一斉送信時にディスクから読み込む単位（サブチャンクは自身のサイズ境界に揃うため、2MB以下ならブロックをまたがない）
+const BROADCAST_BLOCK_SIZE = 4 * 1024 * 1024;
+// 遅い受信者のためにメモリへ残すブロックの上限（超えた分は遅い受信者がディスクから読み直す）
+const BROADCAST_CACHE_LIMIT = 64 * 1024 * 1024;
+// スウォーム配布で送信側がメインチャンクに進んでから、担当外のサブチャンクのACKを待つ時間（過ぎたら交換が止まったとみなして自分で送る）
+const SWARM_STALL_TIMEOUT = 10000;
 
 class ChunkManager {
     public file: File;
     public MAIN_CHUNK_SIZE: number = 50 * 1024 * 1024; // 50MB
     public SUB_CHUNK_SIZE: number = 1 * 1024 * 1024;    // 1MB
+    public MAX_RETRIES: number = 3;
     public mainChunks: MainChunk[] = [];
-    public completedSubChunks: Set<string> = new Set();
+    public completedSubChunks: Set<string> = new Set(); // 受信側のACK済み
     public failedSubChunks: Set<string> = new Set();
+    public inFlightSubChunks: Map<string, SubChunk> = new Map(); // 送信済み・ACK待ち
     public startTime: number = 0;
-
-    constructor(file: File) {
+    public sendSeq: number = 0;       // 送信順の通し番号
+    public lastAckedSeq: number = -1; // ACK済みのうち最も後に送ったもの
+    public lastAckAt: number = 0;     // 最後に新しいACKが届いた時刻
+    public chunkReader: ChunkReader | null = null; // 一斉送信時の共有読み込み（未設定時はファイルから直接読む）
+    public swarmShare: SwarmShare | null = null;   // スウォーム配布での担当（未設定時は全サブチャンクを送る）
+    public swarmReachedAt: Map<number, number> = new Map(); // メインチャンク -> 送信側がそこへ進んだ時刻（担当の受信者にも届いているはずの基準）
+
+    constructor(file: File, subChunkSize: number = 1 * 1024 * 1024) {
         this.file = file;
+
+        // 受信側は index × サブチャンクサイズ で配置するため、メインチャンクを割り切れるサイズに限る
+        if (subChunkSize > 0 && this.MAIN_CHUNK_SIZE % subChunkSize === 0) {
+            this.SUB_CHUNK_SIZE = subChunkSize;
+        } else {
+            console.warn(`⚠️ サブチャンクサイズ ${subChunkSize}B はメインチャンクを割り切れないため1MBを使用します`);
+        }
         this.init();
     }
 
@@ -26,8 +48,8 @@ class ChunkManager {
         const mainChunkCount = Math.ceil(totalSize / this.MAIN_CHUNK_SIZE);
 
         console.log(`📁 ファイル解析: ${this.formatFileSize(totalSize)}`);
-        console.log(`📦 メインチャンク数: ${mainChunkCount} (50MB each)`);
-        console.log(`🔲 サブチャンク数: 約${Math.ceil(totalSize / this.SUB_CHUNK_SIZE)} (1MB each)`);
+        console.log(`📦 メインチャンク数: ${mainChunkCount} (${this.formatFileSize(this.MAIN_CHUNK_SIZE)} each)`);
+        console.log(`🔲 サブチャンク数: 約${Math.ceil(totalSize / this.SUB_CHUNK_SIZE)} (${this.formatFileSize(this.SUB_CHUNK_SIZE)} each)`);
 
         // メインチャンク作成
         for (let i = 0; i < mainChunkCount; i++) {
@@ -55,12 +77,15 @@ class ChunkManager {
                     id: `${mainChunk.id}_sub_${j}`,
                     mainChunkId: mainChunk.id,
                     index: j,
+                    globalIndex: Math.floor(subStart / this.SUB_CHUNK_SIZE),
                     start: subStart,
                     end: subEnd,
                     size: subEnd - subStart,
                     status: 'pending' as const,
                     checksum: null,
-                    retryCount: 0
+                    retryCount: 0,
+                    sentAt: 0,
+                    sentSeq: -1
                 };
 
                 mainChunk.subChunks.push(subChunk);
@@ -71,10 +96,13 @@ class ChunkManager {
     }
 
     /**
-     * 次の送信するメインチャンクを取得
+     * 次の送信するメインチャンクを取得（未送信のサブチャンクが残っているもの）
      */
     getNextMainChunk(): MainChunk | null {
-        return this.mainChunks.find(chunk => chunk.status === 'pending') || null;
+        return this.mainChunks.find(chunk =>
+            chunk.status !== 'completed' &&
+            chunk.subChunks.some(sc => sc.status === 'pending' && !this.failedSubChunks.has(sc.id) && this.isInSwarmShare(sc))
+        ) || null;
     }
 
     /**
@@ -90,28 +118,133 @@ class ChunkManager {
      */
     getNextSubChunk(mainChunkId: string): SubChunk | null {
         const subChunks = this.getSubChunks(mainChunkId);
-        return subChunks.find(chunk => chunk.status === 'pending' && !this.failedSubChunks.has(chunk.id)) || null;
+        return subChunks.find(chunk => chunk.status === 'pending' && !this.failedSubChunks.has(chunk.id) && this.isInSwarmShare(chunk)) || null;
+    }
+
+    /**
+     * 今送るべきサブチャンクか（スウォーム配布では担当分のみ。担当外も、そのメインチャンクへ進んでから一定時間ACKがなければ送る）
+     * 基準はメインチャンクごとに固定し、送った分のACKが届いても残りを待たせない
+     */
+    isInSwarmShare(subChunk: SubChunk): boolean {
+        if (!this.swarmShare || this.swarmShare.shareCount <= 1) return true;
+        if (subChunk.globalIndex % this.swarmShare.shareCount === this.swarmShare.share) return true;
+        const reachedAt = this.swarmReachedAt.get(Math.floor(subChunk.start / this.MAIN_CHUNK_SIZE));
+        return reachedAt !== undefined && Date.now() - reachedAt > SWARM_STALL_TIMEOUT;
     }
 
     /**
-     * サブチャンク完了を記録
+     * 送信側がメインチャンクへ進んだ時刻を記録（再開で進み直しても最初の時刻を使う）
      */
-    markSubChunkCompleted(subChunkId: string, checksum: string): void {
-        this.completedSubChunks.add(subChunkId);
+    markSwarmReached(mainIndex: number): void {
+        if (!this.swarmReachedAt.has(mainIndex)) {
+            this.swarmReachedAt.set(mainIndex, Date.now());
+        }
+    }
+
+    /**
+     * サブチャンク送信済みを記録（ACKが届くまでは送信ウィンドウを占有する）
+     */
+    markSubChunkSent(subChunkId: string, checksum: string): void {
+        const subChunk = this.findSubChunk(subChunkId);
+        if (!subChunk) return;
+
         this.failedSubChunks.delete(subChunkId);
+        subChunk.checksum = checksum;
+        subChunk.sentAt = Date.now();
+        subChunk.sentSeq = this.sendSeq++;
+
+        // 遅れて届いたACKで既に完了している場合は状態を戻さない
+        if (subChunk.status !== 'acked') {
+            subChunk.status = 'sent';
+            this.inFlightSubChunks.set(subChunkId, subChunk);
+        }
+    }
 
-        // サブチャンクを更新
-        for (const mainChunk of this.mainChunks) {
-            const subChunk = mainChunk.subChunks.find(sc => sc.id === subChunkId);
-            if (subChunk) {
-                subChunk.status = 'completed';
-                subChunk.checksum = checksum;
-                break;
+    /**
+     * サブチャンクのACK受信を記録
+     */
+    markSubChunkAcked(subChunkId: string): void {
+        const subChunk = this.findSubChunk(subChunkId);
+        if (!subChunk) return;
+
+        this.ackSubChunk(subChunk);
+
+        // メインチャンクの完了チェック
+        this.updateMainChunkStatus();
+    }
+
+    /**
+     * 受信側のビットマップを反映（bit j = メインチャンク内のサブチャンクj を受信済み）
+     * 再開時の報告（resume）では0のビットを未受信として再送対象に戻す
+     * 新たにACK済みになったサブチャンク数を返す
+     */
+    applyAckBitmap(mainChunkIndex: number, bitmap: Uint8Array, resume: boolean = false): number {
+        const mainChunk = this.mainChunks[mainChunkIndex];
+        if (!mainChunk) return 0;
+
+        let newlyAcked = 0;
+        for (const subChunk of mainChunk.subChunks) {
+            const received = (bitmap[subChunk.index >> 3] & (1 << (subChunk.index & 7))) !== 0;
+            if (received) {
+                if (subChunk.status !== 'acked') {
+                    this.ackSubChunk(subChunk);
+                    newlyAcked++;
+                }
+            } else if (resume) {
+                // 再開時の再送は失敗回数に数えない
+                this.resetSubChunk(subChunk);
             }
         }
 
-        // メインチャンクの完了チェック
         this.updateMainChunkStatus();
+        return newlyAcked;
+    }
+
+    /**
+     * ACK済みにする
+     */
+    private ackSubChunk(subChunk: SubChunk): void {
+        subChunk.status = 'acked';
+        this.completedSubChunks.add(subChunk.id);
+        this.failedSubChunks.delete(subChunk.id);
+        this.inFlightSubChunks.delete(subChunk.id);
+
+        if (subChunk.sentSeq > this.lastAckedSeq) {
+            this.lastAckedSeq = subChunk.sentSeq;
+        }
+        this.lastAckAt = Date.now();
+    }
+
+    /**
+     * 失敗回数を増やさずに未送信へ戻す
+     */
+    private resetSubChunk(subChunk: SubChunk): void {
+        subChunk.status = 'pending';
+        this.completedSubChunks.delete(subChunk.id);
+        this.failedSubChunks.delete(subChunk.id);
+        this.inFlightSubChunks.delete(subChunk.id);
+    }
+
+    /**
+     * 欠落したサブチャンクを再送対象に戻す（非信頼チャネルでの損失は失敗回数に数えない）
+     */
+    markSubChunkLost(subChunkId: string): void {
+        const subChunk = this.findSubChunk(subChunkId);
+        if (subChunk && subChunk.status === 'sent') {
+            this.resetSubChunk(subChunk);
+        }
+    }
+
+    /**
+     * ビットマップ上の欠落（ギャップ）を検出
+     * 送信からgrace(ms)経っても未ACKで、後から送ったものが先にACKされたか、ACKがidleTimeout(ms)途絶えているもの
+     */
+    getAckGaps(grace: number, idleTimeout: number): SubChunk[] {
+        const now = Date.now();
+        const idle = now - this.lastAckAt > idleTimeout;
+        return Array.from(this.inFlightSubChunks.values()).filter(subChunk =>
+            now - subChunk.sentAt >= grace && (subChunk.sentSeq < this.lastAckedSeq || idle)
+        );
     }
 
     /**
@@ -119,36 +252,68 @@ class ChunkManager {
      */
     markSubChunkFailed(subChunkId: string): void {
         this.failedSubChunks.add(subChunkId);
+        this.completedSubChunks.delete(subChunkId);
+        this.inFlightSubChunks.delete(subChunkId);
 
         const subChunk = this.findSubChunk(subChunkId);
         if (subChunk) {
             subChunk.retryCount++;
-            if (subChunk.retryCount > 3) {
+            if (subChunk.retryCount > this.MAX_RETRIES) {
                 subChunk.status = 'failed';
-                console.error(`❌ サブチャンク ${subChunkId} が3回失敗しました`);
+                console.error(`❌ サブチャンク ${subChunkId} が${this.MAX_RETRIES}回失敗しました`);
+            } else {
+                // 送信済み扱いを取り消して再送対象に戻す
+                subChunk.status = 'pending';
             }
         }
+
+        this.updateMainChunkStatus();
     }
 
     /**
-     * メインチャンクのステータスを更新
+     * ACK待ちのバイト数（送信ウィンドウの使用量）
+     */
+    getUnackedBytes(): number {
+        let bytes = 0;
+        this.inFlightSubChunks.forEach(subChunk => { bytes += subChunk.size; });
+        return bytes;
+    }
+
+    /**
+     * 送信からtimeout(ms)経ってもACKが届かないサブチャンク
+     */
+    getTimedOutSubChunks(timeout: number): SubChunk[] {
+        const now = Date.now();
+        return Array.from(this.inFlightSubChunks.values()).filter(subChunk => now - subChunk.sentAt > timeout);
+    }
+
+    /**
+     * 再送上限に達したサブチャンクがあるか
+     */
+    hasFailedSubChunks(): boolean {
+        return this.mainChunks.some(chunk => chunk.subChunks.some(sc => sc.status === 'failed'));
+    }
+
+    /**
+     * メインチャンクのステータスを更新（全サブチャンクがACK済みで完了）
      */
     updateMainChunkStatus() {
         for (const mainChunk of this.mainChunks) {
-            const completedSubs = mainChunk.subChunks.filter(sc => sc.status === 'completed').length;
+            const completedSubs = mainChunk.subChunks.filter(sc => sc.status === 'acked').length;
             const totalSubs = mainChunk.subChunks.length;
 
             if (completedSubs === totalSubs && totalSubs > 0) {
                 mainChunk.status = 'completed';
                 console.log(`✅ メインチャンク ${mainChunk.id} 完了 (${completedSubs}/${totalSubs})`);
-            } else if (completedSubs > 0) {
+            } else if (completedSubs > 0 || mainChunk.status === 'completed') {
+                // 完了済みでも再送要求で欠けた場合は送信中に戻す
                 mainChunk.status = 'sending';
             }
         }
     }
 
     /**
-     * 転送進捗を取得
+     * 転送進捗を取得（受信側のACK済みバイト数基準）
      */
     getProgress() {
         const totalSubChunks = this.mainChunks.reduce((sum, chunk) => sum + chunk.subChunks.length, 0);
@@ -156,13 +321,14 @@ class ChunkManager {
 
         const totalBytes = this.file.size;
         const completedBytes = this.mainChunks.reduce((sum, chunk) => {
-            const completedSubs = chunk.subChunks.filter(sc => sc.status === 'completed');
+            const completedSubs = chunk.subChunks.filter(sc => sc.status === 'acked');
             return sum + completedSubs.reduce((subSum, sub) => subSum + sub.size, 0);
         }, 0);
 
         return {
-            percentage: (completedSubChunks / totalSubChunks) * 100,
+            percentage: totalBytes > 0 ? (completedBytes / totalBytes) * 100 : (completedSubChunks >= totalSubChunks ? 100 : 0),
             bytesCompleted: completedBytes,
+            bytesInFlight: this.getUnackedBytes(),
             totalBytes: totalBytes,
             chunksCompleted: completedSubChunks,
             totalChunks: totalSubChunks,
@@ -185,7 +351,7 @@ class ChunkManager {
         const retryList = [];
         for (const mainChunk of this.mainChunks) {
             const failedSubs = mainChunk.subChunks.filter(sc =>
-                this.failedSubChunks.has(sc.id) && sc.retryCount <= 3
+                this.failedSubChunks.has(sc.id) && sc.retryCount <= this.MAX_RETRIES
             );
             retryList.push(...failedSubs);
         }
@@ -207,6 +373,9 @@ class ChunkManager {
      * チャンクデータを取得（ArrayBuffer形式）
      */
     async getChunkData(chunk: SubChunk): Promise<ArrayBuffer> {
+        if (this.chunkReader) {
+            return await this.chunkReader.read(chunk.start, chunk.end);
+        }
         const fileSlice = this.file.slice(chunk.start, chunk.end);
         return await fileSlice.arrayBuffer();
     }
@@ -220,6 +389,39 @@ class ChunkManager {
         return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
     }
 
+    /**
+     * サブチャンクのchecksum（一斉送信では受信者間で共有し、同じ範囲を何度も読み込み・計算しない）
+     */
+    async getSubChunkChecksum(subChunk: SubChunk, data?: ArrayBuffer): Promise<string> {
+        if (this.chunkReader?.checksum) {
+            return await this.chunkReader.checksum(subChunk.start, subChunk.end, data);
+        }
+        return await this.calculateChecksum(data || await this.getChunkData(subChunk));
+    }
+
+    /**
+     * ファイル全体のダイジェストを計算
+     * メインチャンク = SHA-256(サブチャンクchecksumの連結)、ルート = SHA-256(メインチャンクchecksumの連結)
+     * 全サブチャンクがACK済みの前提（スウォーム配布で他の受信者から届いた分は送っていないため、共有のchecksumを使う）
+     */
+    async calculateFileDigest(): Promise<string> {
+        const encoder = new TextEncoder();
+
+        for (const mainChunk of this.mainChunks) {
+            for (const subChunk of mainChunk.subChunks) {
+                if (!subChunk.checksum) {
+                    subChunk.checksum = await this.getSubChunkChecksum(subChunk);
+                }
+            }
+
+            const leaves = mainChunk.subChunks.map(sc => sc.checksum || '').join('');
+            mainChunk.checksum = await this.calculateChecksum(encoder.encode(leaves).buffer as ArrayBuffer);
+        }
+
+        const root = this.mainChunks.map(chunk => chunk.checksum).join('');
+        return await this.calculateChecksum(encoder.encode(root).buffer as ArrayBuffer);
+    }
+
     /**
      * ファイルサイズを整形
      */
@@ -272,8 +474,153 @@ class ChunkManager {
      */
     startTransfer(): void {
         this.startTime = Date.now();
+        this.lastAckAt = this.startTime;
+    }
+}
+
+interface BroadcastBlock {
+    data: Promise<ArrayBuffer>;
+    size: number;
+}
+
+/**
+ * 一斉送信用の共有チャンク読み込み
+ * 受信者ごとのChunkManagerが同じファイルを送るとき、ディスクからはブロック単位で1回だけ読み、
+ * 全受信者が読み終えたブロックから解放する。遅い受信者を待たないよう、キャッシュ上限を超えたら
+ * 古いブロックを捨て、遅れている受信者はディスクから読み直す
+ */
+class BroadcastChunkSource implements BroadcastChunkSourceInterface {
+    public file: File;
+    public diskBytesRead: number = 0; // ディスクから読み込んだ合計
+    private blocks: Map<number, BroadcastBlock> = new Map();
+    private cachedBytes: number = 0;
+    private peers: Map<string, BroadcastPeerState & { position: number }> = new Map();
+    private checksums: Map<string, Promise<string>> = new Map(); // `${start}-${end}` -> checksum（全受信者で1回だけ計算）
+
+    constructor(file: File) {
+        this.file = file;
+    }
+
+    /**
+     * 受信者ごとの読み込み口を作成（ChunkManager.chunkReaderに設定する）
+     */
+    createReader(peerId: string): ChunkReader {
+        this.peers.set(peerId, { peerId, status: 'sending', error: null, position: 0 });
+        return {
+            read: (start: number, end: number) => this.read(peerId, start, end),
+            checksum: (start: number, end: number, data?: ArrayBuffer) => this.checksum(peerId, start, end, data)
+        };
+    }
+
+    /**
+     * 受信者の完了・失敗を記録（以降はその受信者のためにブロックを残さない）
+     */
+    finish(peerId: string, success: boolean, error: string | null = null): void {
+        const peer = this.peers.get(peerId);
+        if (!peer) return;
+
+        peer.status = success ? 'completed' : 'failed';
+        peer.error = error;
+        this.releaseBlocks();
+    }
+
+    /**
+     * 受信者ごとの状態
+     */
+    getPeers(): BroadcastPeerState[] {
+        return [...this.peers.values()].map(({ peerId, status, error }) => ({ peerId, status, error }));
+    }
+
+    /**
+     * 全受信者が終了したか
+     */
+    isFinished(): boolean {
+        return [...this.peers.values()].every(peer => peer.status !== 'sending');
+    }
+
+    /**
+     * 指定範囲を読み込み（同じブロックは全受信者で共有）
+     */
+    async read(peerId: string, start: number, end: number): Promise<ArrayBuffer> {
+        const blockIndex = Math.floor(start / BROADCAST_BLOCK_SIZE);
+        const blockStart = blockIndex * BROADCAST_BLOCK_SIZE;
+
+        // ブロックをまたぐ範囲・全員が読み終えた範囲（再送）は共有せず直接読む
+        if (end > blockStart + BROADCAST_BLOCK_SIZE || blockIndex < this.getLowestPosition()) {
+            return await this.readFromDisk(start, end);
+        }
+
+        let block = this.blocks.get(blockIndex);
+        if (!block) {
+            const blockEnd = Math.min(blockStart + BROADCAST_BLOCK_SIZE, this.file.size);
+            block = { data: this.readFromDisk(blockStart, blockEnd), size: blockEnd - blockStart };
+            this.blocks.set(blockIndex, block);
+            this.cachedBytes += block.size;
+        }
+
+        const peer = this.peers.get(peerId);
+        if (peer && blockIndex > peer.position) {
+            peer.position = blockIndex;
+        }
+
+        const data = await block.data;
+        const result = data.slice(start - blockStart, end - blockStart);
+        this.releaseBlocks();
+        return result;
+    }
+
+    /**
+     * 指定範囲のchecksum（最初に求めた受信者の結果を共有する）
+     */
+    checksum(peerId: string, start: number, end: number, data?: ArrayBuffer): Promise<string> {
+        const key = `${start}-${end}`;
+        let checksum = this.checksums.get(key);
+        if (!checksum) {
+            checksum = (async () => {
+                const hash = await crypto.subtle.digest('SHA-256', data || await this.read(peerId, start, end));
+                return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
+            })();
+            checksum.catch(() => this.checksums.delete(key)); // 読み込み失敗は次回やり直す
+            this.checksums.set(key, checksum);
+        }
+        return checksum;
+    }
+
+    /**
+     * 送信中の受信者のうち最も遅れている位置
+     */
+    private getLowestPosition(): number {
+        const positions = [...this.peers.values()]
+            .filter(peer => peer.status === 'sending')
+            .map(peer => peer.position);
+        return positions.length > 0 ? Math.min(...positions) : Infinity;
+    }
+
+    /**
+     * 不要になったブロックを解放
+     */
+    private releaseBlocks(): void {
+        const lowest = this.getLowestPosition();
+        const indexes = [...this.blocks.keys()].sort((a, b) => a - b);
+
+        for (const index of indexes) {
+            // 全員が先へ進んだブロック、または上限超過時の古いブロック（遅い受信者は読み直す）
+            if (index < lowest || this.cachedBytes > BROADCAST_CACHE_LIMIT) {
+                this.cachedBytes -= this.blocks.get(index)!.size;
+                this.blocks.delete(index);
+            }
+        }
+    }
+
+    /**
+     * ディスクから読み込み
+     */
+    private async readFromDisk(start: number, end: number): Promise<ArrayBuffer> {
+        this.diskBytesRead += end - start;
+        return await this.file.slice(start, end).arrayBuffer();
     }
 }
 
 // グローバルエクスポート
-(window as any).ChunkManager = ChunkManager;
\ No newline at end of file
+(window as any).ChunkManager = ChunkManager;
+(window as any).BroadcastChunkSource = BroadcastChunkSource;
\ No newline at end of file
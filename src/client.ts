@@ -3,7 +3,7 @@
  * 100GB対応・階層チャンク転送の実装
  */
 
-import type { FileInfo, TransferStats, ControlMessage, WebRTCManagerV2 } from './types.js';
+import type { FileInfo, TransferStats, TransferDirection, ControlMessage, WebRTCManagerV2, FileTransferStatus, BatchFileEntry, TransferPanel, SwarmMesh, SwarmSignal } from './types.js';
 
 declare global {
     var WebRTCManagerV2: {
@@ -13,17 +13,27 @@ declare global {
 class ClientManagerV2 {
     private ws: WebSocket | null = null;
     private roomCode: string | null = null;
-    private selectedFiles: File[] = [];
-    private completedFiles: FileInfo[] = [];
+    // ルームコードの形式（接続時にシグナリングサーバーから通知される）
+    private roomCodeLength: number = 6;
+    private roomCodeAlphabet: string = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
     private webrtc: WebRTCManagerV2;
+    private panel: TransferPanel; // 送受信UI（server.htmlと共通）
+    private swarm: SwarmMesh;     // 同じ部屋の他の受信者とのチャンク交換
 
-    // 転送統計
-    private transferStartTime: number | null = null;
-    private lastProgressUpdate: number = Date.now();
-    private lastBytesTransferred: number = 0;
+    // 受信側（ホスト）から届いたファイル
+    private receivedFiles: (FileInfo & { status: FileTransferStatus; error?: string })[] = [];
 
     constructor() {
         this.webrtc = new WebRTCManagerV2();
+        this.panel = new window.TransferPanel(document.getElementById('transferPanel') as HTMLElement, this.webrtc, {
+            sendTargetLabel: '受信側',
+            onStatus: (state: string, message: string) => this.updateStatus(state, message),
+            onError: (message: string) => this.showError(message)
+        });
+        this.swarm = new window.SwarmMesh((to: number, signal: SwarmSignal) => {
+            this.sendToServer({ type: 'swarm-signal', to, signal });
+        });
+        this.swarm.attach(this.webrtc);
         this.setupUI();
         this.connectToServer();
     }
@@ -55,8 +65,14 @@ class ClientManagerV2 {
 
     // サーバーメッセージ処理
     private handleServerMessage(data: {
-        type: 'room-joined' | 'offer' | 'ice-candidate' | 'error';
+        type: 'config' | 'join-pending' | 'join-rejected' | 'room-joined' | 'room-code-changed' | 'offer' | 'ice-candidate' | 'swarm-signal' | 'swarm-peer-joined' | 'swarm-peer-left' | 'error';
         roomCode?: string;
+        clientId?: number;
+        peers?: number[];
+        from?: number;
+        signal?: SwarmSignal;
+        roomCodeLength?: number;
+        roomCodeAlphabet?: string;
         offer?: RTCSessionDescriptionInit;
         candidate?: RTCIceCandidateInit;
         message?: string;
@@ -64,11 +80,40 @@ class ClientManagerV2 {
         console.log('📥 V2サーバー受信:', data.type, data);
 
         switch (data.type) {
+            case 'config':
+                if (data.roomCodeLength && data.roomCodeAlphabet) {
+                    this.applyRoomCodeFormat(data.roomCodeLength, data.roomCodeAlphabet);
+                }
+                break;
+
+            case 'join-pending':
+                this.updateStatus('connecting', '⏳ 受信側の承認待ち...');
+                console.log('⏳ 参加申請中:', data.roomCode);
+                break;
+
+            case 'join-rejected':
+                this.roomCode = null;
+                this.updateStatus('disconnected', '🚫 参加が拒否されました');
+                this.showError(data.message || '受信側が参加を拒否しました');
+                break;
+
             case 'room-joined':
                 this.roomCode = data.roomCode || null;
+                this.webrtc.roomCode = this.roomCode || ''; // 暗号鍵の導出に使う
                 this.updateStatus('connecting', '🤝 P2P接続確立中...');
-                console.log('🏠 ルーム参加完了:', data.roomCode);
+                console.log('🏠 ルーム参加完了:', data.roomCode, 'クライアントID:', data.clientId);
                 this.webrtc.init(false); // クライアントとしてWebRTC V2初期化
+                // 同じ部屋の受信者を覚えておく（チャンク交換の接続はスウォーム配布の受信中にだけ張る）
+                if (data.clientId !== undefined) {
+                    this.swarm.setPeers(data.clientId, data.peers || []);
+                }
+                break;
+
+            case 'room-code-changed':
+                // 受信側がコードを再発行した（次回の鍵交換から新しいコードを使う）
+                this.roomCode = data.roomCode || null;
+                this.webrtc.roomCode = this.roomCode || '';
+                console.log('🔄 ルームコード変更:', data.roomCode);
                 break;
 
             case 'offer':
@@ -83,6 +128,26 @@ class ClientManagerV2 {
                 }
                 break;
 
+            case 'swarm-signal':
+                if (data.from !== undefined && data.signal) {
+                    this.swarm.handleSignal(data.from, data.signal).catch(error => {
+                        console.warn('⚠️ スウォームシグナリングエラー:', error);
+                    });
+                }
+                break;
+
+            case 'swarm-peer-joined':
+                if (data.clientId !== undefined) {
+                    this.swarm.addPeer(data.clientId);
+                }
+                break;
+
+            case 'swarm-peer-left':
+                if (data.clientId !== undefined) {
+                    this.swarm.removePeer(data.clientId);
+                }
+                break;
+
             case 'error':
                 if (data.message) {
                     console.error('❌ サーバーエラー:', data.message);
@@ -136,244 +201,59 @@ class ClientManagerV2 {
         const roomCodeInput = document.getElementById('roomCode') as HTMLInputElement;
         if (!roomCodeInput) return;
 
-        const code = roomCodeInput.value.trim();
+        const code = roomCodeInput.value.trim().toUpperCase();
 
-        if (code.length !== 4) {
-            this.showError('4桁のルームコードを入力してください');
+        if (!this.isValidRoomCode(code)) {
+            this.showError(`${this.roomCodeLength}文字のルームコードを入力してください`);
             return;
         }
 
+        // 受信側が承認の判断に使う自己申告の名前・端末情報
+        const peerNameInput = document.getElementById('peerName') as HTMLInputElement;
         this.roomCode = code;
         this.sendToServer({
             type: 'join-room',
-            roomCode: code
+            roomCode: code,
+            name: peerNameInput?.value.trim() || '',
+            device: this.describeDevice()
         });
 
         this.updateStatus('connecting', '🔄 ルーム参加中...');
     }
 
-    // ファイル選択
-    selectFiles(files: FileList): void {
-        const newFiles = Array.from(files);
-        this.selectedFiles = [...this.selectedFiles, ...newFiles];
-        this.displaySelectedFiles();
-        this.updateSendButton();
-    }
-
-    // ファイル削除
-    removeFile(index: number): void {
-        if (index >= 0 && index < this.selectedFiles.length) {
-            const removedFile = this.selectedFiles[index];
-            console.log(`🗑️ ファイルを削除: ${removedFile.name}`);
-            this.selectedFiles.splice(index, 1);
-            this.displaySelectedFiles();
-            this.updateSendButton();
-        }
-    }
-
-    // 完了ファイルに移動
-    moveToCompleted(file: File): void {
-        const fileInfo: FileInfo = {
-            name: file.name,
-            size: file.size,
-            data: new ArrayBuffer(0) // 送信側ではデータは不要
-        };
-
-        this.completedFiles.push(fileInfo);
-        this.displayCompletedFiles();
-    }
-
-    // 完了ファイル表示
-    displayCompletedFiles(): void {
-        const completedFilesList = document.getElementById('completedFilesList') as HTMLElement;
-        const completedFilesContainer = document.getElementById('completedFilesContainer') as HTMLElement;
-        const clearCompletedBtn = document.getElementById('clearCompletedBtn') as HTMLElement;
-
-        if (!completedFilesList || !completedFilesContainer) return;
-
-        completedFilesList.innerHTML = '';
-
-        this.completedFiles.forEach((file, index) => {
-            const fileItem = document.createElement('div');
-            fileItem.className = 'file-item';
-            fileItem.innerHTML = `
-                <div class="file-info">
-                    <span class="file-name">${file.name}</span>
-                    <span class="file-size">${this.formatFileSize(file.size)}</span>
-                </div>
-                <div class="file-status">
-                    <span class="status-indicator completed">✅ 送信完了</span>
-                </div>
-            `;
-            completedFilesList.appendChild(fileItem);
-        });
-
-        // 完了ファイルがある場合はコンテナとクリアボタンを表示
-        if (this.completedFiles.length > 0) {
-            completedFilesContainer.style.display = 'block';
-            if (clearCompletedBtn) clearCompletedBtn.style.display = 'inline-block';
-        } else {
-            completedFilesContainer.style.display = 'none';
-            if (clearCompletedBtn) clearCompletedBtn.style.display = 'none';
-        }
-    }
-
-    // 完了ファイルをクリア
-    clearCompletedFiles(): void {
-        this.completedFiles = [];
-        this.displayCompletedFiles();
-        console.log('🗑️ 送信完了ファイルリストをクリアしました');
-    }
-
-    // 選択ファイル表示
-    displaySelectedFiles(): void {
-        const selectedFilesList = document.getElementById('selectedFilesList') as HTMLElement;
-        const selectedFilesContainer = document.getElementById('selectedFilesContainer') as HTMLElement;
-        const selectedFile = document.getElementById('selectedFile');
-        const fileName = document.getElementById('fileName');
-        const fileSize = document.getElementById('fileSize');
-
-        if (!selectedFilesList || !selectedFilesContainer) return;
-
-        selectedFilesList.innerHTML = '';
-
-        this.selectedFiles.forEach((file, index) => {
-            const fileItem = document.createElement('div');
-            fileItem.className = 'file-item';
-            fileItem.innerHTML = `
-                <div class="file-info">
-                    <span class="file-name">${file.name}</span>
-                    <span class="file-size">${this.formatFileSize(file.size)}</span>
-                </div>
-                <div class="file-actions">
-                    <button class="remove-file-btn" data-index="${index}">✕</button>
-                </div>
-            `;
-            selectedFilesList.appendChild(fileItem);
-        });
-
-        // 削除ボタンにイベントリスナーを追加
-        selectedFilesList.querySelectorAll('.remove-file-btn').forEach(btn => {
-            btn.addEventListener('click', (e) => {
-                const index = parseInt((e.target as HTMLElement).dataset.index || '0');
-                this.removeFile(index);
-            });
-        });
-
-        // ファイルがある場合はリストコンテナを表示
-        if (this.selectedFiles.length > 0) {
-            selectedFilesContainer.style.display = 'block';
-            const file = this.selectedFiles[0];
-            if (fileName) fileName.textContent = `📄 ${file.name}`;
-            if (fileSize) fileSize.textContent = `📏 ${this.formatFileSize(file.size)}`;
-            if (selectedFile) selectedFile.style.display = 'block';
-        } else {
-            selectedFilesContainer.style.display = 'none';
-            if (selectedFile) selectedFile.style.display = 'none';
-        }
-    }
-
-    // 送信ボタン状態更新
-    updateSendButton(): void {
-        const sendBtn = document.getElementById('sendBtn') as HTMLButtonElement;
-        if (!sendBtn) return;
-
-        const canSend = this.selectedFiles.length > 0 &&
-                       this.roomCode &&
-                       this.roomCode.length === 4 &&
-                       this.webrtc.pc &&
-                       (this.webrtc.pc.connectionState === 'connected' || this.webrtc.pc.connectionState === 'connecting') &&
-                       this.webrtc.dataChannel &&
-                       this.webrtc.dataChannel.readyState === 'open';
-
-        console.log('🔍 送信ボタン状態チェック:', {
-            selectedFiles: this.selectedFiles.length,
-            roomCode: this.roomCode,
-            connectionState: this.webrtc.pc?.connectionState,
-            dataChannelState: this.webrtc.dataChannel?.readyState,
-            canSend: canSend
-        });
-
-        sendBtn.disabled = !canSend;
+    // 端末情報（ブラウザ / OS）
+    describeDevice(): string {
+        const ua = navigator.userAgent;
+        const browser = /Edg\//.test(ua) ? 'Edge'
+            : /Firefox\//.test(ua) ? 'Firefox'
+            : /Chrome\//.test(ua) ? 'Chrome'
+            : /Safari\//.test(ua) ? 'Safari'
+            : 'ブラウザ';
+        const os = /Android/.test(ua) ? 'Android'
+            : /iPhone|iPad/.test(ua) ? 'iOS'
+            : /Windows/.test(ua) ? 'Windows'
+            : /Mac OS X/.test(ua) ? 'macOS'
+            : /Linux/.test(ua) ? 'Linux'
+            : '不明なOS';
+        return `${browser} / ${os}`;
     }
 
-    // ファイル送信（V2）
-    async sendFiles(): Promise<void> {
-        if (this.selectedFiles.length === 0) return;
-
-        const sendBtn = document.getElementById('sendBtn') as HTMLButtonElement;
-        const progressContainer = document.getElementById('progressContainer');
+    // ルームコード形式の反映
+    applyRoomCodeFormat(length: number, alphabet: string): void {
+        this.roomCodeLength = length;
+        this.roomCodeAlphabet = alphabet;
 
-        if (!sendBtn || !progressContainer) return;
-
-        sendBtn.disabled = true;
-        sendBtn.textContent = '🚀 V2送信中...';
-        progressContainer.style.display = 'block';
-
-        // 設定値を適用
-        this.applySettings();
-
-        try {
-            let currentIndex = 0;
-            while (this.selectedFiles.length > 0) {
-                const file = this.selectedFiles[0]; // 最初のファイルを送信
-                this.transferStartTime = Date.now();
-                this.lastBytesTransferred = 0;
-                this.lastProgressUpdate = Date.now();
-
-                const totalFiles = this.selectedFiles.length + this.completedFiles.length;
-                this.updateStatus('sending', `🚀 ${file.name} をV2転送中... (${this.completedFiles.length + 1}/${totalFiles})`);
-
-                await this.webrtc.sendFile(file);
-
-                // 送信完了後、選択リストから削除して完了リストに移動
-                this.moveToCompleted(file);
-                this.selectedFiles.shift(); // 最初の要素を削除
-                this.displaySelectedFiles();
-                this.updateSendButton();
-
-                this.updateStatus('completed', `✅ ${file.name} V2転送完了！`);
-
-                // ファイル間に少し待機時間を入れてDataChannelを安定させる
-                if (this.selectedFiles.length > 0) {
-                    console.log('⏳ 次のファイル送信前に待機...');
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                }
-
-                currentIndex++;
-            }
-        } catch (error: unknown) {
-            console.error('ファイル送信エラー:', error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            this.showError('V2ファイル送信エラー: ' + errorMessage);
-        } finally {
-            sendBtn.textContent = '🚀 高速送信開始';
-
-            // 送信ボタンの状態を更新
-            this.updateSendButton();
-
-            // すべてのファイル送信完了
-            if (this.selectedFiles.length === 0 && this.completedFiles.length > 0) {
-                this.updateStatus('all-completed', `🎉 全${this.completedFiles.length}ファイルの送信が完了しました！`);
-            }
+        const roomCodeInput = document.getElementById('roomCode') as HTMLInputElement;
+        if (roomCodeInput) {
+            roomCodeInput.maxLength = length;
+            roomCodeInput.placeholder = alphabet.slice(0, length);
         }
     }
 
-    // 設定値を適用
-    applySettings(): void {
-        const concurrentSends = document.getElementById('concurrentSends') as HTMLInputElement;
-        const bufferThreshold = document.getElementById('bufferThreshold') as HTMLInputElement;
-        const chunkSizeKB = document.getElementById('chunkSizeKB') as HTMLInputElement;
-
-        if (concurrentSends) {
-            this.webrtc.maxConcurrentSends = parseInt(concurrentSends.value);
-        }
-        if (bufferThreshold) {
-            this.webrtc.BUFFER_THRESHOLD = parseInt(bufferThreshold.value) * 1024 * 1024;
-        }
-        if (chunkSizeKB) {
-            this.webrtc.adaptiveChunkSize = parseInt(chunkSizeKB.value) * 1024;
-        }
+    // ルームコードの形式チェック
+    isValidRoomCode(code: string): boolean {
+        return code.length === this.roomCodeLength &&
+               Array.from(code).every(char => this.roomCodeAlphabet.includes(char));
     }
 
     // UIセットアップ
@@ -382,60 +262,12 @@ class ClientManagerV2 {
         const roomCodeInput = document.getElementById('roomCode') as HTMLInputElement;
         if (roomCodeInput) {
             roomCodeInput.addEventListener('input', () => {
-                if (roomCodeInput.value.length === 4) {
+                if (roomCodeInput.value.trim().length === this.roomCodeLength) {
                     this.joinRoom();
                 }
             });
         }
 
-        // ファイル選択
-        const fileInput = document.getElementById('fileInput') as HTMLInputElement;
-        const selectFileBtn = document.getElementById('selectFileBtn') as HTMLButtonElement;
-        const dropArea = document.getElementById('dropArea') as HTMLElement;
-        const sendBtn = document.getElementById('sendBtn') as HTMLButtonElement;
-
-        if (selectFileBtn && fileInput) {
-            selectFileBtn.addEventListener('click', () => {
-                fileInput.click();
-            });
-        }
-
-        if (fileInput) {
-            fileInput.addEventListener('change', (e) => {
-                const target = e.target as HTMLInputElement;
-                if (target.files) {
-                    this.selectFiles(target.files);
-                }
-            });
-        }
-
-        // ドラッグ&ドロップ
-        if (dropArea) {
-            dropArea.addEventListener('dragover', (e) => {
-                e.preventDefault();
-                dropArea.classList.add('drag-over');
-            });
-
-            dropArea.addEventListener('dragleave', () => {
-                dropArea.classList.remove('drag-over');
-            });
-
-            dropArea.addEventListener('drop', (e) => {
-                e.preventDefault();
-                dropArea.classList.remove('drag-over');
-                if (e.dataTransfer && e.dataTransfer.files) {
-                    this.selectFiles(e.dataTransfer.files);
-                }
-            });
-        }
-
-        // 送信ボタン
-        if (sendBtn) {
-            sendBtn.addEventListener('click', () => {
-                this.sendFiles();
-            });
-        }
-
         // 詳細設定トグル
         const advancedToggle = document.getElementById('advancedToggle') as HTMLButtonElement;
         const advancedSettings = document.getElementById('advancedSettings') as HTMLElement;
@@ -452,50 +284,90 @@ class ClientManagerV2 {
             });
         }
 
-        // クリア完了ファイルボタン
-        const clearCompletedBtn = document.getElementById('clearCompletedBtn') as HTMLButtonElement;
-        if (clearCompletedBtn) {
-            clearCompletedBtn.addEventListener('click', () => {
-                this.clearCompletedFiles();
+        const requireSasConfirm = document.getElementById('requireSasConfirm') as HTMLInputElement;
+        if (requireSasConfirm) {
+            this.webrtc.requireSasConfirmation = requireSasConfirm.checked;
+            requireSasConfirm.addEventListener('change', () => {
+                this.webrtc.requireSasConfirmation = requireSasConfirm.checked;
+                this.panel.updateSendButton();
+            });
+        }
+
+        // クリア受信ファイルボタン
+        const clearReceivedBtn = document.getElementById('clearReceivedBtn') as HTMLButtonElement;
+        if (clearReceivedBtn) {
+            clearReceivedBtn.addEventListener('click', () => {
+                this.receivedFiles = [];
+                this.updateReceivedFilesList();
             });
         }
 
         // WebRTCイベント
         this.webrtc.onStatusChange = (state: string, message: string) => {
-            const statusEl = document.getElementById('status');
-            if (statusEl) {
-                statusEl.innerHTML = `<span class="${state}">${message}</span>`;
-            }
-            this.updateSendButton();
+            this.updateStatus(state, message);
 
             // P2P接続確立時にファイル選択UIを表示
-            if (state === 'connected') {
-                const dropAreaEl = document.getElementById('dropArea');
-                const sendBtnEl = document.getElementById('sendBtn');
-                if (dropAreaEl) dropAreaEl.style.display = 'block';
-                if (sendBtnEl) sendBtnEl.style.display = 'inline-block';
-            }
+            this.panel.setConnected(state === 'connected');
         };
 
-        this.webrtc.onProgress = (progress: number) => {
-            this.updateProgress(progress);
+        this.webrtc.onProgress = (progress: number, direction: TransferDirection) => {
+            this.panel.updateProgress(progress, direction);
         };
 
-        this.webrtc.onStatsUpdate = (stats: TransferStats) => {
-            this.updateDetailedStats(stats);
+        this.webrtc.onStatsUpdate = (stats: TransferStats, direction: TransferDirection) => {
+            this.panel.updateStats(stats, direction);
         };
 
         this.webrtc.onConnected = () => {
-            this.updateSendButton();
+            this.panel.updateSendButton();
         };
 
         this.webrtc.onDisconnected = () => {
-            this.updateSendButton();
+            this.panel.updateSendButton();
+        };
+
+        this.webrtc.onSasReady = (sas: string) => {
+            this.panel.displaySas(sas);
+        };
+
+        // 受信側（ホスト）からのファイル受信
+        this.webrtc.onBatchStart = (batchId: string, files: BatchFileEntry[]) => {
+            files.forEach(file => {
+                this.receivedFiles.push({ ...file, status: 'queued' });
+            });
+            this.updateReceivedFilesList();
+        };
+
+        this.webrtc.onBatchEnd = (batchId: string) => {
+            this.receivedFiles
+                .filter(file => file.status === 'queued' && file.fileId?.startsWith(`${batchId}-`))
+                .forEach(file => {
+                    file.status = 'failed';
+                    file.error = '送信が中止されました';
+                });
+            this.updateReceivedFilesList();
+        };
+
+        this.webrtc.onFileReceiveStart = (filename: string, filesize: number, fileId: string) => {
+            this.setFileStatus({ fileId, name: filename, size: filesize }, 'receiving');
+            this.panel.showReceivingFile(filename, filesize);
+        };
+
+        this.webrtc.onFileReceived = (fileData: FileInfo) => {
+            console.log('✅ ファイル受信完了:', fileData.name);
+            this.setFileStatus(fileData, 'completed');
+            this.downloadFile(fileData);
+        };
+
+        this.webrtc.onFileFailed = (fileInfo: FileInfo, reason: string) => {
+            console.error('❌ ファイル受信失敗:', fileInfo.name, reason);
+            this.setFileStatus(fileInfo, 'failed', reason);
+            this.showError(`${fileInfo.name} の受信に失敗しました: ${reason}`);
         };
 
         // 5秒ごとに送信ボタン状態を更新（DataChannel状態変化対応）
         setInterval(() => {
-            this.updateSendButton();
+            this.panel.updateSendButton();
         }, 5000);
 
         // サーバー送信メソッド設定
@@ -504,68 +376,79 @@ class ClientManagerV2 {
         };
     }
 
-    // 進捗更新
-    updateProgress(progress: number): void {
-        const progressBar = document.getElementById('progressBar');
-        const progressFill = document.getElementById('progressFill');
-        const progressText = document.getElementById('progressText');
+    // 受信ファイルの状態を更新（一覧にない場合は追加）
+    setFileStatus(fileData: FileInfo, status: FileTransferStatus, error?: string): void {
+        const entry = fileData.fileId
+            ? this.receivedFiles.find(file => file.fileId === fileData.fileId)
+            : undefined;
 
-        if (progressBar) {
-            progressBar.style.display = 'block';
-        }
-        if (progressFill) {
-            progressFill.style.width = `${progress}%`;
-        }
-        if (progressText) {
-            progressText.textContent = `${progress.toFixed(1)}%`;
+        if (entry) {
+            Object.assign(entry, fileData, { status, error });
+        } else {
+            this.receivedFiles.push({ ...fileData, status, error });
         }
-
-        // 転送速度計算
-        this.calculateTransferSpeed();
+        this.updateReceivedFilesList();
     }
 
-    // 詳細統計更新
-    updateDetailedStats(stats: TransferStats): void {
-        console.log('📊 送信側統計更新:', stats);
+    // 受信ファイルリスト更新
+    updateReceivedFilesList(): void {
+        const fileList = document.getElementById('receivedFilesList');
+        const filesListContainer = document.getElementById('filesListContainer');
+        if (!fileList || !filesListContainer) return;
 
-        const mainChunksCompleted = document.getElementById('mainChunksCompleted');
-        const subChunksCompleted = document.getElementById('subChunksCompleted');
-        const transferSpeed = document.getElementById('transferSpeed');
-        const failedChunks = document.getElementById('failedChunks');
+        fileList.innerHTML = '';
+        this.receivedFiles.forEach(file => {
+            const fileItem = document.createElement('div');
+            fileItem.className = 'file-item';
+            fileItem.innerHTML = `
+                <div class="file-info">
+                    <div class="file-name"></div>
+                    <div class="file-size">${this.formatFileSize(file.size)}</div>
+                </div>
+                <div class="file-status">
+                    <span class="status-indicator ${file.status}"></span>
+                </div>
+            `;
+            // ファイル名は相手の環境に依存するためtextContentで表示する
+            fileItem.querySelector('.file-name')!.textContent = file.relativePath || file.name;
+            const status = fileItem.querySelector('.status-indicator') as HTMLElement;
+            status.textContent = this.describeFileStatus(file.status);
+            if (file.error) status.title = file.error;
+            fileList.appendChild(fileItem);
+        });
 
-        if (mainChunksCompleted) {
-            const mainText = `${stats.mainChunksCompleted || 0}/${stats.totalMainChunks || 0}`;
-            mainChunksCompleted.textContent = mainText;
-        }
-        if (subChunksCompleted) {
-            const subText = `${stats.chunksCompleted || 0}/${stats.totalChunks || 0}`;
-            subChunksCompleted.textContent = subText;
-        }
-        if (transferSpeed) {
-            transferSpeed.textContent = this.calculateTransferSpeed() + ' MB/s';
-        }
-        if (failedChunks) {
-            failedChunks.textContent = stats.failedChunks.toString();
-        }
+        filesListContainer.style.display = this.receivedFiles.length > 0 ? 'block' : 'none';
     }
 
-    // 転送速度計算
-    calculateTransferSpeed(): string {
-        if (!this.transferStartTime || !this.webrtc.chunkManager) return '0';
-
-        const now = Date.now();
-        const timeDiff = (now - this.lastProgressUpdate) / 1000; // 秒
-        const stats = this.webrtc.chunkManager.getProgress();
-        const bytesDiff = stats.bytesCompleted - this.lastBytesTransferred;
-
-        if (timeDiff > 0) {
-            const speedMBps = (bytesDiff / (1024 * 1024)) / timeDiff;
-            this.lastProgressUpdate = now;
-            this.lastBytesTransferred = stats.bytesCompleted;
-            return speedMBps.toFixed(1);
+    // ファイル状態の表示文言
+    describeFileStatus(status: FileTransferStatus): string {
+        switch (status) {
+            case 'queued':
+                return '⏳ 待機中';
+            case 'receiving':
+                return '📥 受信中';
+            case 'failed':
+                return '❌ 受信失敗';
+            case 'completed':
+                return '✅ 受信完了';
         }
+    }
 
-        return '0';
+    // ファイルダウンロード（フォルダ内のファイルもファイル名のみで保存する）
+    downloadFile(fileData: FileInfo): void {
+        const blob = fileData.blob || new Blob(fileData.data ? [fileData.data] : [], { type: 'application/octet-stream' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileData.name;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        window.releaseAfterDownload(fileData);
+
+        console.log('💾 ファイルダウンロード完了:', fileData.name);
+        this.updateStatus('completed', `✅ ${fileData.name} ダウンロード完了！`);
     }
 
     // ファイルサイズ整形
@@ -595,7 +478,11 @@ class ClientManagerV2 {
         const statusEl = document.getElementById('status');
         if (!statusEl) return;
 
-        statusEl.innerHTML = `<span class="${state}">${message}</span>`;
+        // 受信ファイル名や失敗理由など相手から届く文字列を含むためtextContentで表示する
+        const span = document.createElement('span');
+        span.className = state;
+        span.textContent = message;
+        statusEl.replaceChildren(span);
     }
 }
 
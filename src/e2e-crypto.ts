@@ -0,0 +1,205 @@
+/**
+ * エンドツーエンド暗号化（サブチャンク本体をAES-GCMで暗号化）
+ * DataChannel上でECDH(P-256)の公開鍵を交換し、ルームコードをソルトにHKDFで鍵を導出する
+ * 鍵確認（HMAC）が一致しなければ、ルームコードを知らない中継者が鍵交換に割り込んだとみなす
+ * ルームコードはシグナリングサーバーも知っているため、鍵交換そのものは双方の公開鍵を含むSASを画面同士で照合して認証する
+ * ホストは先に公開鍵のコミットメントを送り、参加者の公開鍵を見てから鍵を選び直す（SASの総当たり）ことを防ぐ
+ */
+import type { E2ESession as E2ESessionInterface } from './types.js';
+
+const E2E_LABEL = 'fast-transfer-v2';
+const ROLE_HOST = 1;
+const ROLE_JOINER = 2;
+const COUNTER_SIZE = 8; // 暗号文の先頭に付ける送信カウンター
+
+function toBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+function fromBase64(encoded: string): ArrayBuffer {
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+class E2ESession implements E2ESessionInterface {
+    public readonly publicKey: string; // Base64（raw形式）
+    private keyPair: CryptoKeyPair;
+    private role: number = ROLE_HOST;
+    private aesKey: CryptoKey | null = null;
+    private confirmKey: CryptoKey | null = null;
+    private macKey: CryptoKey | null = null;
+    private keyTranscript: string | null = null;
+    private sendCounter: number = 0; // 暗号化のたびに増やし、同じ鍵でnonceを使い回さない
+
+    private constructor(keyPair: CryptoKeyPair, publicKey: string) {
+        this.keyPair = keyPair;
+        this.publicKey = publicKey;
+    }
+
+    /**
+     * 接続ごとの一時鍵ペアを生成
+     */
+    static async create(): Promise<E2ESession> {
+        const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']) as CryptoKeyPair;
+        const raw = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+        return new E2ESession(keyPair, toBase64(raw));
+    }
+
+    get ready(): boolean {
+        return this.aesKey !== null;
+    }
+
+    /**
+     * 鍵交換に使った公開鍵（ホスト→参加者の順）。SASに含めて画面同士で照合する
+     */
+    get transcript(): string | null {
+        return this.keyTranscript;
+    }
+
+    /**
+     * 公開鍵のコミットメント（ホストが先に送り、公開鍵は参加者の公開鍵を受け取ってから明かす）
+     */
+    async createCommitment(): Promise<string> {
+        return await E2ESession.commit(this.publicKey);
+    }
+
+    /**
+     * 相手が明かした公開鍵が事前のコミットメントと一致するか
+     */
+    async verifyCommitment(publicKey: string, commitment: string): Promise<boolean> {
+        return await E2ESession.commit(publicKey) === commitment;
+    }
+
+    private static async commit(publicKey: string): Promise<string> {
+        return toBase64(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${E2E_LABEL}/commit/${publicKey}`)));
+    }
+
+    /**
+     * 相手の公開鍵から共有鍵を導出
+     * 公開鍵はホスト→参加者の順でinfoに含め、双方が同じ鍵交換を見ていることを鍵確認で保証する
+     */
+    async establish(peerPublicKey: string, roomCode: string, isHost: boolean): Promise<void> {
+        this.role = isHost ? ROLE_HOST : ROLE_JOINER;
+        this.sendCounter = 0;
+
+        const peerKey = await crypto.subtle.importKey('raw', fromBase64(peerPublicKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+        const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, this.keyPair.privateKey, 256);
+        const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+        const encoder = new TextEncoder();
+        const salt = await crypto.subtle.digest('SHA-256', encoder.encode(`${E2E_LABEL}/room/${roomCode}`));
+        const transcript = isHost ? `${this.publicKey}|${peerPublicKey}` : `${peerPublicKey}|${this.publicKey}`;
+        this.keyTranscript = transcript;
+
+        this.aesKey = await crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`${E2E_LABEL}/aes-gcm/${transcript}`) },
+            hkdfKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        );
+        this.confirmKey = await crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`${E2E_LABEL}/key-confirm/${transcript}`) },
+            hkdfKey,
+            { name: 'HMAC', hash: 'SHA-256', length: 256 },
+            false,
+            ['sign', 'verify']
+        );
+        this.macKey = await crypto.subtle.deriveKey(
+            { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`${E2E_LABEL}/checksum-mac/${transcript}`) },
+            hkdfKey,
+            { name: 'HMAC', hash: 'SHA-256', length: 256 },
+            false,
+            ['sign']
+        );
+    }
+
+    /**
+     * サブチャンク・ファイルのチェックサムを鍵付きにする（平文のSHA-256から内容を推測させない）
+     */
+    async macChecksum(checksum: string): Promise<string> {
+        const mac = await crypto.subtle.sign('HMAC', this.requireKey(this.macKey), new TextEncoder().encode(`checksum/${checksum}`));
+        return Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('');
+    }
+
+    /**
+     * 自分側の鍵確認値
+     */
+    async createConfirmation(): Promise<string> {
+        const mac = await crypto.subtle.sign('HMAC', this.requireKey(this.confirmKey), new TextEncoder().encode(`confirm/${this.role}`));
+        return toBase64(mac);
+    }
+
+    /**
+     * 相手側の鍵確認値を検証
+     */
+    async verifyConfirmation(confirmation: string): Promise<boolean> {
+        const peerRole = this.role === ROLE_HOST ? ROLE_JOINER : ROLE_HOST;
+        return await crypto.subtle.verify('HMAC', this.requireKey(this.confirmKey), fromBase64(confirmation), new TextEncoder().encode(`confirm/${peerRole}`));
+    }
+
+    /**
+     * 暗号化して [送信カウンター u64][暗号文] を返す（nonce = 送信者の役割 + 送信カウンター）
+     * 再送で圧縮結果が変わっても、送るたびに別のnonceになる
+     */
+    async encrypt(data: ArrayBuffer, additionalData: ArrayBuffer): Promise<ArrayBuffer> {
+        const counter = this.sendCounter++;
+        const encrypted = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv: this.createNonce(this.role, counter), additionalData },
+            this.requireKey(this.aesKey),
+            data
+        );
+
+        const result = new Uint8Array(COUNTER_SIZE + encrypted.byteLength);
+        new DataView(result.buffer).setBigUint64(0, BigInt(counter), true);
+        result.set(new Uint8Array(encrypted), COUNTER_SIZE);
+        return result.buffer;
+    }
+
+    /**
+     * 相手が暗号化したデータを復号（改ざん・鍵違いは例外）
+     */
+    async decrypt(data: ArrayBuffer, additionalData: ArrayBuffer): Promise<ArrayBuffer> {
+        if (data.byteLength < COUNTER_SIZE) {
+            throw new Error('暗号文が短すぎます');
+        }
+        const counter = Number(new DataView(data).getBigUint64(0, true));
+        const peerRole = this.role === ROLE_HOST ? ROLE_JOINER : ROLE_HOST;
+        return await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: this.createNonce(peerRole, counter), additionalData },
+            this.requireKey(this.aesKey),
+            data.slice(COUNTER_SIZE)
+        );
+    }
+
+    /**
+     * 96bit nonce: [役割 u8, 0 ×3, 送信カウンター u64]
+     * 役割で送信方向を分けるため、双方向で同じカウンターを使っても衝突しない
+     */
+    private createNonce(role: number, counter: number): ArrayBuffer {
+        const nonce = new ArrayBuffer(12);
+        const view = new DataView(nonce);
+        view.setUint8(0, role);
+        view.setBigUint64(4, BigInt(counter), true);
+        return nonce;
+    }
+
+    private requireKey(key: CryptoKey | null): CryptoKey {
+        if (!key) {
+            throw new Error('暗号鍵が未確立です');
+        }
+        return key;
+    }
+}
+
+// グローバルエクスポート
+(window as any).E2ESession = E2ESession;
@@ -0,0 +1,263 @@
+/**
+ * 受信ファイルの書き込み先（シンク）
+ * チャンクを到着した時点でオフセット位置に書き込み、ファイル全体をメモリに持たない
+ */
+import type { FileSink, FileInfo, IterableDirectoryHandle } from './types.js';
+
+const OPFS_DIRECTORY = 'fast-transfer-v2';
+
+// 以前のセッションの残骸削除はページ読み込み後の初回のみ（同一セッションの受信済みファイルはZIP化等で参照される）
+let opfsCleanup: Promise<void> | null = null;
+
+// 空き名の検索から作成までを直列化（複数の送信者から同名ファイルが同時に届いても同じ名前を選ばない）
+let nameReservation: Promise<unknown> = Promise.resolve();
+
+// ダウンロードの完了は検知できないため、読み出しに十分な時間を置いてから一時領域を削除する
+const DOWNLOAD_RELEASE_MIN_DELAY = 60 * 1000;
+const DOWNLOAD_RELEASE_BYTES_PER_MS = 20 * 1024; // 約20MB/s
+
+/**
+ * ユーザーが選択したフォルダへ直接書き込むシンク（File System Access API）
+ */
+class DirectoryFileSink implements FileSink {
+    public readonly kind = 'directory' as const;
+    private handle: FileSystemFileHandle;
+    private writable: FileSystemWritableFileStream;
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(handle: FileSystemFileHandle, writable: FileSystemWritableFileStream) {
+        this.handle = handle;
+        this.writable = writable;
+    }
+
+    static async create(directory: FileSystemDirectoryHandle, relativePath: string): Promise<DirectoryFileSink> {
+        // フォルダ送信時は相対パスどおりにサブフォルダを作成する
+        const segments = splitRelativePath(relativePath);
+        const filename = segments.pop() || 'untitled';
+        let parent = directory;
+        for (const segment of segments) {
+            parent = await parent.getDirectoryHandle(segment, { create: true });
+        }
+
+        const { name, handle } = await createAvailableFile(parent, filename);
+        const writable = await handle.createWritable();
+        console.log(`💾 保存先フォルダに書き込み: ${[...segments, name].join('/')}`);
+        return new DirectoryFileSink(handle, writable);
+    }
+
+    write(offset: number, data: ArrayBuffer): Promise<void> {
+        // 書き込みは到着順に直列化する
+        this.writeChain = this.writeChain.then(() =>
+            this.writable.write({ type: 'write', position: offset, data: data })
+        );
+        return this.writeChain;
+    }
+
+    async close(): Promise<Blob> {
+        await this.writeChain;
+        await this.writable.close();
+        return await this.handle.getFile();
+    }
+
+    async abort(): Promise<void> {
+        await this.writeChain.catch(() => undefined);
+        await this.writable.abort();
+    }
+
+    async release(): Promise<void> {
+        // 保存先フォルダのファイルはユーザーのものなので残す
+    }
+}
+
+/**
+ * Origin Private File System に書き込むシンク
+ * 完了後はディスク上のFileとしてダウンロードに渡す
+ */
+class OpfsFileSink implements FileSink {
+    public readonly kind = 'opfs' as const;
+    private directory: FileSystemDirectoryHandle;
+    private name: string;
+    private handle: FileSystemFileHandle;
+    private writable: FileSystemWritableFileStream;
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(directory: FileSystemDirectoryHandle, name: string, handle: FileSystemFileHandle, writable: FileSystemWritableFileStream) {
+        this.directory = directory;
+        this.name = name;
+        this.handle = handle;
+        this.writable = writable;
+    }
+
+    static async create(filename: string): Promise<OpfsFileSink> {
+        const root = await navigator.storage.getDirectory();
+        const directory = await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+        if (!opfsCleanup) {
+            opfsCleanup = cleanupOpfs(directory);
+        }
+        await opfsCleanup;
+
+        // 同時に受信する同名ファイルと衝突しないよう乱数を付ける
+        const suffix = crypto.getRandomValues(new Uint32Array(1))[0].toString(36);
+        const name = `${Date.now()}_${suffix}_${splitRelativePath(filename).pop() || 'untitled'}`;
+        const handle = await directory.getFileHandle(name, { create: true });
+        const writable = await handle.createWritable();
+        console.log(`💾 OPFSに書き込み: ${name}`);
+        return new OpfsFileSink(directory, name, handle, writable);
+    }
+
+    write(offset: number, data: ArrayBuffer): Promise<void> {
+        // 書き込みは到着順に直列化する
+        this.writeChain = this.writeChain.then(() =>
+            this.writable.write({ type: 'write', position: offset, data: data })
+        );
+        return this.writeChain;
+    }
+
+    async close(): Promise<Blob> {
+        await this.writeChain;
+        await this.writable.close();
+        return await this.handle.getFile();
+    }
+
+    async abort(): Promise<void> {
+        await this.writeChain.catch(() => undefined);
+        await this.writable.abort();
+        await this.directory.removeEntry(this.name).catch(() => undefined);
+    }
+
+    async release(): Promise<void> {
+        try {
+            await this.directory.removeEntry(this.name);
+            console.log(`🗑️ OPFSの一時ファイルを削除: ${this.name}`);
+        } catch (error) {
+            console.warn(`⚠️ OPFSの一時ファイルを削除できません: ${this.name}`, error);
+        }
+    }
+}
+
+/**
+ * メモリ上に保持するシンク（ファイルシステムAPIが使えない場合のフォールバック）
+ * 単一のArrayBufferは確保せず、チャンク列からBlobを組み立てる
+ */
+class MemoryFileSink implements FileSink {
+    public readonly kind = 'memory' as const;
+    private chunks: Map<number, ArrayBuffer> = new Map();
+
+    async write(offset: number, data: ArrayBuffer): Promise<void> {
+        this.chunks.set(offset, data);
+    }
+
+    async close(): Promise<Blob> {
+        const parts = Array.from(this.chunks.entries())
+            .sort((a, b) => a[0] - b[0])
+            .map(([, data]) => data);
+        this.chunks.clear();
+        return new Blob(parts, { type: 'application/octet-stream' });
+    }
+
+    async abort(): Promise<void> {
+        this.chunks.clear();
+    }
+
+    async release(): Promise<void> {
+        // Blobの参照が無くなればブラウザが解放する
+    }
+}
+
+/**
+ * 相対パスを安全なパス要素に分割（送信側の値なので親ディレクトリ参照などは除去する）
+ */
+function splitRelativePath(relativePath: string): string[] {
+    return relativePath
+        .split(/[\\/]/)
+        .map(segment => segment.trim())
+        .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * 同名ファイルを上書きしないよう空いている名前を探す
+ */
+async function findAvailableName(directory: FileSystemDirectoryHandle, filename: string): Promise<string> {
+    const dot = filename.lastIndexOf('.');
+    const base = dot > 0 ? filename.slice(0, dot) : filename;
+    const ext = dot > 0 ? filename.slice(dot) : '';
+
+    for (let i = 0; ; i++) {
+        const candidate = i === 0 ? filename : `${base} (${i})${ext}`;
+        try {
+            await directory.getFileHandle(candidate);
+        } catch (error) {
+            return candidate; // 存在しない
+        }
+    }
+}
+
+/**
+ * 空いている名前でファイルを作成（作成まで終えてから次の予約に進む）
+ */
+function createAvailableFile(directory: FileSystemDirectoryHandle, filename: string): Promise<{ name: string; handle: FileSystemFileHandle }> {
+    const created = nameReservation.then(async () => {
+        const name = await findAvailableName(directory, filename);
+        const handle = await directory.getFileHandle(name, { create: true });
+        return { name, handle };
+    });
+    nameReservation = created.catch(() => undefined);
+    return created;
+}
+
+/**
+ * 以前のセッションで残ったOPFSファイルを削除（書き込み中のものは削除に失敗するので無視）
+ */
+async function cleanupOpfs(directory: FileSystemDirectoryHandle): Promise<void> {
+    const names: string[] = [];
+    for await (const name of (directory as IterableDirectoryHandle).keys()) {
+        names.push(name);
+    }
+    for (const name of names) {
+        await directory.removeEntry(name).catch(() => undefined);
+    }
+}
+
+/**
+ * ダウンロードを開始したファイルの一時領域を、読み出しが終わる頃に解放する
+ */
+function releaseAfterDownload(fileData: FileInfo): void {
+    if (!fileData.release) return;
+
+    const release = fileData.release;
+    fileData.release = undefined;
+    const delay = Math.max(DOWNLOAD_RELEASE_MIN_DELAY, fileData.size / DOWNLOAD_RELEASE_BYTES_PER_MS);
+    setTimeout(() => {
+        release().catch(error => console.warn('⚠️ 一時領域の解放に失敗:', error));
+    }, delay);
+}
+
+/**
+ * 利用可能な中で最適なシンクを作成
+ * フォルダ指定 > OPFS > メモリ の順に試す
+ */
+async function createFileSink(filename: string, filesize: number, directory: FileSystemDirectoryHandle | null = null, relativePath: string = filename): Promise<FileSink> {
+    if (directory) {
+        try {
+            return await DirectoryFileSink.create(directory, relativePath);
+        } catch (error) {
+            console.warn('⚠️ 保存先フォルダへの書き込みを開始できません:', error);
+        }
+    }
+
+    if (navigator.storage && typeof navigator.storage.getDirectory === 'function') {
+        try {
+            return await OpfsFileSink.create(filename);
+        } catch (error) {
+            console.warn('⚠️ OPFSを利用できません:', error);
+        }
+    }
+
+    console.warn(`⚠️ メモリ上で受信します（${filesize}B）`);
+    return new MemoryFileSink();
+}
+
+// グローバルエクスポート
+(window as any).createFileSink = createFileSink;
+(window as any).splitRelativePath = splitRelativePath;
+(window as any).releaseAfterDownload = releaseAfterDownload;
@@ -4,22 +4,64 @@
  * 100GB対応・階層チャンク受信の実装
  */
 
-import type { FileInfo, TransferStats, ControlMessage, WebRTCManagerV2 } from './types.js';
+import type { FileInfo, TransferStats, TransferDirection, ControlMessage, WebRTCManagerV2, FileTransferStatus, BatchFileEntry, ZipArchive, ZipCompression, TransferMode, TransferPanel, BroadcastChunkSource, SwarmShare } from './types.js';
 
 declare global {
     var WebRTCManagerV2: {
         new(): WebRTCManagerV2;
     };
 }
+
+// 承認待ちの参加申請（名前・端末情報は参加者の自己申告）
+interface JoinRequest {
+    joinId: number;
+    name: string;
+    device: string;
+    ip: string;
+}
+
+// 受信しながら書き出し中のZIP
+interface ZipJob {
+    batchId: string;
+    name: string;
+    archive: Promise<ZipArchive>;
+    queue: Promise<void>;
+    failed: boolean;
+}
+
+// 参加中の送信者（クライアントIDごとにWebRTC接続と送受信パネルを持つ）
+interface PeerSession {
+    clientId: number;
+    name: string;
+    webrtc: WebRTCManagerV2;
+    section: HTMLElement;
+    panel: TransferPanel;
+    batchZip: ZipJob | null;
+}
+
+// 一斉送信（1つのファイルを接続中の全員へ同時に送る）
+interface BroadcastJob {
+    file: File;
+    source: BroadcastChunkSource;  // ディスクからの読み込みを受信者間で共有し、受信者ごとの完了を記録
+    names: Map<number, string>;
+    rows: Map<number, HTMLElement>; // 受信者ごとの進捗表示
+    running: boolean;
+    swarmId: string | null;         // 受信者同士でチャンクを交換する場合の識別子
+    shares: Map<number, number>;    // 交換に参加する受信者ごとの担当番号
+    subChunkSize: number;           // 全受信者で共通のサブチャンクサイズ
+    pieceKey: string;               // 受信者間で交換するピースの暗号鍵（Base64）
+}
+
+// スウォーム配布のサブチャンクサイズの上限（実際は全受信者が受け取れる最小値に揃える）
+const SWARM_SUB_CHUNK_SIZE = 1024 * 1024;
+
+type ReceivedFileEntry = FileInfo & { status: FileTransferStatus; error?: string; clientId: number; sender: string };
 class ServerManagerV2 {
     private ws: WebSocket | null = null;
     private roomCode: string | null = null;
-    private webrtc: WebRTCManagerV2;
-
-    // 受信統計
-    private receiveStartTime: number | null = null;
-    private lastProgressUpdate: number = Date.now();
-    private lastBytesReceived: number = 0;
+    private joinRequests: JoinRequest[] = [];
+    private approvedRequests: Map<number, JoinRequest> = new Map(); // 承認済みで client-joined 待ち
+    private peers: Map<number, PeerSession> = new Map();
 
     // 受信ファイル管理
     private receiveManager: {
@@ -31,11 +73,24 @@ class ServerManagerV2 {
         receivedChunks: Map<string, ArrayBuffer>;
         totalReceived: number;
     } | null = null;
-    private receivedFiles: FileInfo[] = [];
+    private receivedFiles: ReceivedFileEntry[] = [];
     private currentFileIndex: number = 0;
 
+    // 保存先フォルダ（選択時は受信しながら直接書き込む）
+    private saveDirectory: FileSystemDirectoryHandle | null = null;
+
+    // 複数ファイルの保存方法（ZIP指定時はバッチを1つのZIPにまとめる）
+    private downloadMode: 'individual' | ZipCompression = 'individual';
+
+    // 転送モード（接続中の全送信者と、以降に参加する送信者に適用）
+    private transferMode: TransferMode = 'reliable';
+    private requireSasConfirmation: boolean = true; // 送信者ごとに確認コードを照合するまで送り返さない
+
+    // 一斉送信するファイルと、実行中（または直前）の一斉送信
+    private broadcastFile: File | null = null;
+    private broadcast: BroadcastJob | null = null;
+
     constructor() {
-        this.webrtc = new WebRTCManagerV2();
         this.setupUI();
         this.connectToServer();
     }
@@ -67,9 +122,13 @@ class ServerManagerV2 {
 
     // サーバーメッセージ処理
     private handleServerMessage(data: {
-        type: 'room-created' | 'client-joined' | 'answer' | 'ice-candidate' | 'error';
+        type: 'config' | 'room-created' | 'room-regenerated' | 'room-expired' | 'join-request' | 'join-cancelled' | 'client-joined' | 'client-left' | 'answer' | 'ice-candidate' | 'error';
         roomCode?: string;
         clientId?: number;
+        joinId?: number;
+        name?: string;
+        device?: string;
+        ip?: string;
         answer?: RTCSessionDescriptionInit;
         candidate?: RTCIceCandidateInit;
         message?: string;
@@ -82,28 +141,74 @@ class ServerManagerV2 {
                 if (data.roomCode) {
                     this.updateRoomCode(data.roomCode);
                 }
-                this.updateStatus('waiting', '⏳ クライアントの接続を待機中...');
+                this.updateRoomStatus();
                 console.log('🏠 ルーム作成完了:', data.roomCode);
-                this.webrtc.init(true); // ホストとしてWebRTC V2初期化
+                break;
+
+            case 'room-regenerated':
+                // 接続済みのWebRTCはそのまま、新しいコードで参加を受け付ける
+                this.roomCode = data.roomCode || null;
+                this.peers.forEach(peer => {
+                    peer.webrtc.roomCode = this.roomCode || ''; // 暗号鍵の導出に使う
+                });
+                if (data.roomCode) {
+                    this.updateRoomCode(data.roomCode);
+                }
+                console.log('🔄 ルームコード再発行:', data.roomCode);
+                break;
+
+            case 'room-expired':
+                console.log('⌛ ルームコード期限切れ:', data.roomCode);
+                this.showError('ルームコードの有効期限が切れました。「コードを再発行」で新しいコードを発行してください');
+                break;
+
+            case 'join-request':
+                if (data.joinId !== undefined) {
+                    console.log('🙋 参加申請:', data.name, data.device);
+                    this.joinRequests.push({
+                        joinId: data.joinId,
+                        name: data.name || '',
+                        device: data.device || '',
+                        ip: data.ip || ''
+                    });
+                    this.updateJoinRequests();
+                }
+                break;
+
+            case 'join-cancelled':
+                this.joinRequests = this.joinRequests.filter(request => request.joinId !== data.joinId);
+                this.updateJoinRequests();
                 break;
 
             case 'client-joined':
-                this.updateStatus('connecting', '🤝 P2P接続確立中...');
-                console.log('👤 クライアント参加');
-                this.createOffer();
+                if (data.clientId !== undefined) {
+                    console.log('👤 クライアント参加:', data.clientId);
+                    this.addPeer(data.clientId);
+                }
                 break;
 
-            case 'answer':
-                if (data.answer) {
-                    this.handleAnswer(data.answer);
+            case 'client-left':
+                if (data.clientId !== undefined) {
+                    console.log('👋 クライアント退出:', data.clientId);
+                    this.removePeer(data.clientId);
                 }
                 break;
 
-            case 'ice-candidate':
-                if (data.candidate) {
-                    this.handleIceCandidate(data.candidate);
+            case 'answer': {
+                const peer = data.clientId !== undefined ? this.peers.get(data.clientId) : undefined;
+                if (peer && data.answer) {
+                    this.handleAnswer(peer, data.answer);
                 }
                 break;
+            }
+
+            case 'ice-candidate': {
+                const peer = data.clientId !== undefined ? this.peers.get(data.clientId) : undefined;
+                if (peer && data.candidate) {
+                    this.handleIceCandidate(peer, data.candidate);
+                }
+                break;
+            }
 
             case 'error':
                 if (data.message) {
@@ -119,15 +224,174 @@ class ServerManagerV2 {
         this.sendToServer({ type: 'create-room' });
     }
 
-    // Offer作成
-    private async createOffer(): Promise<void> {
+    // 参加申請への応答（承認するとシグナリングサーバーから client-joined が届き、Offerを送る）
+    private respondToJoinRequest(joinId: number, approved: boolean): void {
+        const request = this.joinRequests.find(entry => entry.joinId === joinId);
+        if (request && approved) {
+            this.approvedRequests.set(joinId, request);
+        }
+        this.joinRequests = this.joinRequests.filter(entry => entry.joinId !== joinId);
+        this.updateJoinRequests();
+        console.log(approved ? '✅ 参加を承認:' : '🚫 参加を拒否:', joinId);
+        this.sendToServer({ type: approved ? 'approve-join' : 'reject-join', joinId });
+    }
+
+    // ルームコード再発行（古いコードは無効になる）
+    private regenerateRoom(): void {
+        this.sendToServer({ type: 'regenerate-room' });
+    }
+
+    // 送信者の接続を作成（ホストとしてWebRTC V2初期化し、Offerを送る）
+    private addPeer(clientId: number): void {
+        if (this.peers.has(clientId)) return;
+
+        const request = this.approvedRequests.get(clientId);
+        this.approvedRequests.delete(clientId);
+
+        const name = request?.name || `送信者 #${clientId}`;
+        const webrtc = new WebRTCManagerV2();
+        const section = this.createPeerSection(name);
+        // この送信者へファイルを送り返すためのパネル（client.htmlと共通）
+        const panel = new window.TransferPanel(section.querySelector('.transfer-panel') as HTMLElement, webrtc, {
+            sendTargetLabel: '送信側',
+            onStatus: (state: string, message: string) => this.updateStatus(state, message),
+            onError: (message: string) => this.showError(message)
+        });
+        const peer: PeerSession = {
+            clientId,
+            name,
+            webrtc,
+            section,
+            panel,
+            batchZip: null
+        };
+        this.peers.set(clientId, peer);
+
+        peer.webrtc.roomCode = this.roomCode || ''; // 暗号鍵の導出に使う
+        peer.webrtc.setTransferMode(this.transferMode);
+        peer.webrtc.requireSasConfirmation = this.requireSasConfirmation;
+        this.setupPeerEvents(peer);
+        peer.webrtc.init(true);
+
+        this.updatePeerStatus(peer, 'connecting', '🤝 P2P接続確立中...');
+        this.createOffer(peer);
+    }
+
+    // 送信者の退出 - 接続を閉じ、受信途中・待機中のファイルを失敗にする
+    private removePeer(clientId: number): void {
+        const peer = this.peers.get(clientId);
+        if (!peer) return;
+        this.peers.delete(clientId);
+
+        peer.webrtc.destroy();
+        peer.panel.updateSendButton();
+
+        this.receivedFiles
+            .filter(file => file.clientId === clientId && (file.status === 'queued' || file.status === 'receiving'))
+            .forEach(file => {
+                file.status = 'failed';
+                file.error = '送信者が退出しました';
+            });
+        this.updateReceivedFilesList();
+
+        // 受信済みのファイルだけでZIPを確定する
+        if (peer.batchZip) {
+            const job = peer.batchZip;
+            peer.batchZip = null;
+            this.finishZipJob(job);
+        }
+
+        peer.section.classList.add('disconnected');
+        this.updatePeerStatus(peer, 'disconnected', '👋 退出しました');
+    }
+
+    // 送信者ごとのWebRTCイベント
+    private setupPeerEvents(peer: PeerSession): void {
+        const webrtc = peer.webrtc;
+
+        // 受信データの書き込み先
+        webrtc.sinkFactory = (filename: string, filesize: number, relativePath: string) => {
+            return window.createFileSink(filename, filesize, this.saveDirectory, relativePath);
+        };
+
+        webrtc.onStatusChange = (state: string, message: string) => {
+            this.updatePeerStatus(peer, state, message);
+            peer.panel.setConnected(state === 'connected');
+        };
+
+        webrtc.onProgress = (progress: number, direction: TransferDirection) => {
+            peer.panel.updateProgress(progress, direction);
+            if (direction === 'send') {
+                this.updateBroadcastProgress(peer, progress);
+            }
+        };
+
+        webrtc.onStatsUpdate = (stats: TransferStats, direction: TransferDirection) => {
+            peer.panel.updateStats(stats, direction);
+        };
+
+        webrtc.onFileReceived = (fileData: FileInfo) => {
+            this.handleFileReceived(peer, fileData);
+        };
+
+        webrtc.onFileFailed = (fileInfo: FileInfo, reason: string) => {
+            this.handleFileFailed(peer, fileInfo, reason);
+        };
+
+        // ファイル受信開始イベント
+        webrtc.onFileReceiveStart = (filename: string, filesize: number, fileId: string) => {
+            this.setFileStatus(peer, { fileId, name: filename, size: filesize }, 'receiving');
+            peer.panel.showReceivingFile(filename, filesize);
+        };
+
+        // バッチ（複数ファイル送信）の開始・終了
+        webrtc.onBatchStart = (batchId: string, files: BatchFileEntry[]) => {
+            this.handleBatchStart(peer, batchId, files);
+        };
+
+        webrtc.onBatchEnd = (batchId: string) => {
+            this.handleBatchEnd(peer, batchId);
+        };
+
+        webrtc.onConnected = () => {
+            peer.panel.updateSendButton();
+        };
+
+        webrtc.onDisconnected = () => {
+            peer.panel.updateSendButton();
+        };
+
+        webrtc.onSasReady = (sas: string) => {
+            peer.panel.displaySas(sas);
+        };
+
+        // 接続断からの復旧
+        webrtc.onIceRestartNeeded = () => {
+            this.createOffer(peer, true);
+        };
+
+        // サーバー送信メソッド設定
+        webrtc.sendToServer = (data: ControlMessage | { type: string; candidate: RTCIceCandidate }) => {
+            // ICE候補のみシグナリングサーバーに転送（ICE再起動後の経路確立に必要）
+            if (data.type === 'ice-candidate' && 'candidate' in data) {
+                this.sendToServer({ type: 'ice-candidate', candidate: data.candidate, clientId: peer.clientId });
+                return;
+            }
+            // その他のWebRTCのメッセージはシグナリングサーバーに転送しない
+            console.log('📤 WebRTCメッセージ（シグナリングサーバーには送信しない）:', data.type);
+        };
+    }
+
+    // Offer作成（iceRestart: 接続断からの復旧用）
+    private async createOffer(peer: PeerSession, iceRestart: boolean = false): Promise<void> {
         try {
-            console.log('🎯 V2 Offer作成開始');
-            const offer = await this.webrtc.createOffer();
+            console.log('🎯 V2 Offer作成開始', peer.clientId, iceRestart ? '(ICE再起動)' : '');
+            const offer = await peer.webrtc.createOffer(iceRestart);
             console.log('🎯 V2 Offer作成完了:', offer);
             this.sendToServer({
                 type: 'offer',
-                offer: offer
+                offer: offer,
+                clientId: peer.clientId
             });
             console.log('🎯 V2 Offer送信完了');
         } catch (error: unknown) {
@@ -138,10 +402,10 @@ class ServerManagerV2 {
     }
 
     // Answer処理
-    private async handleAnswer(answer: RTCSessionDescriptionInit): Promise<void> {
+    private async handleAnswer(peer: PeerSession, answer: RTCSessionDescriptionInit): Promise<void> {
         try {
-            console.log('🎯 V2 Answer受信:', answer);
-            await this.webrtc.setRemoteDescription(answer);
+            console.log('🎯 V2 Answer受信:', peer.clientId, answer);
+            await peer.webrtc.setRemoteDescription(answer);
             console.log('🎯 V2 Answer設定完了');
         } catch (error: unknown) {
             console.error('❌ V2 Answer設定エラー:', error);
@@ -151,10 +415,10 @@ class ServerManagerV2 {
     }
 
     // ICE Candidate処理
-    private async handleIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    private async handleIceCandidate(peer: PeerSession, candidate: RTCIceCandidateInit): Promise<void> {
         try {
-            console.log('🧊 V2 ICE Candidate受信:', candidate);
-            await this.webrtc.addIceCandidate(candidate);
+            console.log('🧊 V2 ICE Candidate受信:', peer.clientId, candidate);
+            await peer.webrtc.addIceCandidate(candidate);
             console.log('🧊 V2 ICE Candidate追加完了');
         } catch (error: unknown) {
             console.error('❌ V2 ICE Candidate追加エラー:', error);
@@ -163,8 +427,10 @@ class ServerManagerV2 {
 
     // サーバー送信
     private sendToServer(data: {
-        type: 'create-room' | 'offer' | 'answer' | 'ice-candidate';
+        type: 'create-room' | 'regenerate-room' | 'approve-join' | 'reject-join' | 'offer' | 'answer' | 'ice-candidate';
         roomCode?: string;
+        joinId?: number;
+        clientId?: number;
         offer?: RTCSessionDescriptionInit;
         answer?: RTCSessionDescriptionInit;
         candidate?: RTCIceCandidateInit;
@@ -183,6 +449,88 @@ class ServerManagerV2 {
         roomCodeEl.textContent = code;
     }
 
+    // 参加申請一覧の表示（自己申告の文字列はtextContentで表示する）
+    private updateJoinRequests(): void {
+        const container = document.getElementById('joinRequestsContainer');
+        const list = document.getElementById('joinRequestsList');
+        if (!container || !list) return;
+
+        list.innerHTML = '';
+        this.joinRequests.forEach(request => {
+            const item = document.createElement('div');
+            item.className = 'file-item';
+
+            const info = document.createElement('div');
+            info.className = 'received-file-info';
+            const name = document.createElement('div');
+            name.className = 'join-request-name';
+            name.textContent = `👤 ${request.name}`;
+            const device = document.createElement('div');
+            device.className = 'join-request-device';
+            device.textContent = `💻 ${request.device}${request.ip ? ` (${request.ip})` : ''}`;
+            info.append(name, device);
+
+            const actions = document.createElement('div');
+            actions.className = 'file-actions';
+            const approveBtn = document.createElement('button');
+            approveBtn.className = 'copy-btn';
+            approveBtn.textContent = '✅ 承認';
+            approveBtn.addEventListener('click', () => this.respondToJoinRequest(request.joinId, true));
+            const rejectBtn = document.createElement('button');
+            rejectBtn.className = 'copy-btn';
+            rejectBtn.textContent = '🚫 拒否';
+            rejectBtn.addEventListener('click', () => this.respondToJoinRequest(request.joinId, false));
+            actions.append(approveBtn, rejectBtn);
+
+            item.append(info, actions);
+            list.appendChild(item);
+        });
+
+        container.style.display = this.joinRequests.length > 0 ? 'block' : 'none';
+    }
+
+    // 送信者ごとの進捗表示を作成（テンプレートを複製）
+    private createPeerSection(name: string): HTMLElement {
+        const template = document.getElementById('peerSectionTemplate') as HTMLTemplateElement;
+        const container = document.getElementById('peerSections') as HTMLElement;
+        const section = (template.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+
+        // 名前は参加者の自己申告なのでtextContentで表示する
+        const nameEl = section.querySelector('.peer-name');
+        if (nameEl) nameEl.textContent = `👤 ${name}`;
+
+        container.appendChild(section);
+        return section;
+    }
+
+    // 送信者ごとの表示要素を取得
+    private getPeerElement(peer: PeerSession, selector: string): HTMLElement | null {
+        return peer.section.querySelector(selector) as HTMLElement | null;
+    }
+
+    // 送信者ごとのステータス更新
+    private updatePeerStatus(peer: PeerSession, state: string, message: string): void {
+        const statusEl = this.getPeerElement(peer, '.peer-status');
+        if (!statusEl) return;
+
+        const span = document.createElement('span');
+        span.className = state;
+        span.textContent = message;
+        statusEl.replaceChildren(span);
+        this.updateRoomStatus();
+    }
+
+    // ルーム全体のステータス（接続中の送信者数）
+    private updateRoomStatus(): void {
+        const connected = [...this.peers.values()].filter(peer => peer.webrtc.pc?.connectionState === 'connected').length;
+        if (this.peers.size === 0) {
+            this.updateStatus('waiting', '⏳ クライアントの接続を待機中...');
+        } else {
+            this.updateStatus('connected', `👥 送信者 ${connected}/${this.peers.size}人が接続中`);
+        }
+        this.updateBroadcastButton();
+    }
+
     // UIセットアップ
     private setupUI(): void {
         // コピーボタン
@@ -198,28 +546,73 @@ class ServerManagerV2 {
             }
         });
 
-        
-        // WebRTCイベント
-        this.webrtc.onStatusChange = (state: string, message: string) => {
-            this.updateStatus(state, message);
-        };
+        // ルームコード再発行ボタン
+        const regenerateBtn = document.getElementById('regenerateBtn') as HTMLButtonElement;
+        if (regenerateBtn) {
+            regenerateBtn.addEventListener('click', () => {
+                this.regenerateRoom();
+            });
+        }
 
-        this.webrtc.onProgress = (progress: number) => {
-            this.updateProgress(progress);
-        };
+        // 保存先フォルダ選択（File System Access API対応ブラウザのみ）
+        const pickDirectoryBtn = document.getElementById('pickDirectoryBtn') as HTMLButtonElement;
+        if (pickDirectoryBtn) {
+            if (window.showDirectoryPicker) {
+                pickDirectoryBtn.addEventListener('click', () => {
+                    this.pickSaveDirectory();
+                });
+            } else {
+                pickDirectoryBtn.style.display = 'none';
+            }
+        }
 
-        this.webrtc.onStatsUpdate = (stats: TransferStats) => {
-            this.updateDetailedStats(stats);
-        };
+        // 複数ファイルの保存方法
+        const downloadModeSelect = document.getElementById('downloadMode') as HTMLSelectElement;
+        if (downloadModeSelect) {
+            downloadModeSelect.addEventListener('change', () => {
+                this.downloadMode = downloadModeSelect.value as 'individual' | ZipCompression;
+                console.log('📦 保存方法変更:', this.downloadMode);
+            });
+        }
 
-        this.webrtc.onFileReceived = (fileData: FileInfo) => {
-            this.handleFileReceived(fileData);
-        };
+        // 転送モード（データ用チャネルを張り直して切り替える）
+        const transferModeSelect = document.getElementById('transferMode') as HTMLSelectElement;
+        if (transferModeSelect) {
+            transferModeSelect.addEventListener('change', () => {
+                this.transferMode = transferModeSelect.value as TransferMode;
+                this.peers.forEach(peer => peer.webrtc.setTransferMode(this.transferMode));
+            });
+        }
 
-        // ファイル受信開始イベント
-        this.webrtc.onFileReceiveStart = (filename: string, filesize: number) => {
-            this.updateCurrentFileInfo(filename, filesize);
-        };
+        const requireSasConfirm = document.getElementById('requireSasConfirm') as HTMLInputElement;
+        if (requireSasConfirm) {
+            requireSasConfirm.addEventListener('change', () => {
+                this.requireSasConfirmation = requireSasConfirm.checked;
+                this.peers.forEach(peer => {
+                    peer.webrtc.requireSasConfirmation = this.requireSasConfirmation;
+                    peer.panel.updateSendButton();
+                });
+            });
+        }
+
+        // 一斉送信
+        const broadcastFileInput = document.getElementById('broadcastFileInput') as HTMLInputElement;
+        const broadcastSelectBtn = document.getElementById('broadcastSelectBtn') as HTMLButtonElement;
+        const broadcastBtn = document.getElementById('broadcastBtn') as HTMLButtonElement;
+        if (broadcastSelectBtn && broadcastFileInput) {
+            broadcastSelectBtn.addEventListener('click', () => {
+                broadcastFileInput.click();
+            });
+            broadcastFileInput.addEventListener('change', () => {
+                this.selectBroadcastFile(broadcastFileInput.files?.[0] || null);
+                broadcastFileInput.value = '';
+            });
+        }
+        if (broadcastBtn) {
+            broadcastBtn.addEventListener('click', () => {
+                this.startBroadcast();
+            });
+        }
 
         // クリア受信ファイルボタン
         const clearReceivedBtn = document.getElementById('clearReceivedBtn') as HTMLButtonElement;
@@ -228,94 +621,351 @@ class ServerManagerV2 {
                 this.clearReceivedFiles();
             });
         }
+    }
 
-        // サーバー送信メソッド設定
-        this.webrtc.sendToServer = (data: ControlMessage | { type: string; candidate: RTCIceCandidate }) => {
-            // WebRTCのメッセージはシグナリングサーバーに転送しない
-            console.log('📤 WebRTCメッセージ（シグナリングサーバーには送信しない）:', data.type);
-        };
+    // 一斉送信するファイルを選択
+    private selectBroadcastFile(file: File | null): void {
+        this.broadcastFile = file;
+        const fileName = document.getElementById('broadcastFileName');
+        if (fileName) {
+            fileName.textContent = file ? `📄 ${file.name} (${this.formatFileSize(file.size)})` : '';
+        }
+        this.updateBroadcastButton();
+    }
+
+    // 一斉送信ボタン状態更新（実行中は次の一斉送信を始めない）
+    private updateBroadcastButton(): void {
+        const broadcastBtn = document.getElementById('broadcastBtn') as HTMLButtonElement;
+        if (!broadcastBtn) return;
+
+        const hasTarget = [...this.peers.values()].some(peer => peer.webrtc.dataChannel?.readyState === 'open');
+        broadcastBtn.disabled = !this.broadcastFile || !hasTarget || !!this.broadcast?.running;
     }
 
-    // 進捗更新
-    private updateProgress(progress: number): void {
-        const progressBar = document.getElementById('progressContainer') as HTMLElement;
-        const progressFill = document.getElementById('progressFill') as HTMLElement;
-        const progressText = document.getElementById('progressText') as HTMLElement;
+    // 一斉送信開始 - 受信者ごとに独立して送り、遅い受信者が他の受信者を止めないようにする
+    private async startBroadcast(): Promise<void> {
+        const file = this.broadcastFile;
+        if (!file || this.broadcast?.running) return;
 
-        if (progressBar) {
-            progressBar.style.display = 'block';
+        // 接続済みで、他のファイルを送信中でなく、確認コードを照合済みの送信者が対象
+        const connected = [...this.peers.values()].filter(peer =>
+            peer.webrtc.dataChannel?.readyState === 'open' && !peer.webrtc.isTransferring
+        );
+        const unconfirmed = connected.filter(peer => peer.webrtc.requireSasConfirmation && !peer.webrtc.sasConfirmed);
+        const targets = connected.filter(peer => !unconfirmed.includes(peer));
+        if (targets.length === 0) {
+            this.showError('一斉送信できる接続先がありません（送信中・確認コード未照合の相手は対象外です）');
+            return;
         }
-        if (progressFill) {
-            progressFill.style.width = `${progress}%`;
+        if (unconfirmed.length > 0) {
+            this.showError(`確認コードを照合していない ${unconfirmed.map(peer => peer.name).join('、')} には送信しません`);
         }
-        if (progressText) {
-            progressText.textContent = `${progress.toFixed(1)}%`;
+
+        // 受信者同士で交換する場合、送信側は各受信者に別々の担当分を優先して送る
+        // ピースの暗号鍵はE2Eの鍵で包んで渡すため、暗号化した接続の受信者だけが交換に参加する
+        const swarmCheckbox = document.getElementById('broadcastSwarm') as HTMLInputElement;
+        const swarmPeers = targets.filter(peer => !!peer.webrtc.negotiated?.encryption.length);
+        const useSwarm = !!swarmCheckbox?.checked && swarmPeers.length > 1;
+
+        const job: BroadcastJob = {
+            file: file,
+            source: new window.BroadcastChunkSource(file),
+            names: new Map(targets.map(peer => [peer.clientId, peer.name])),
+            rows: new Map(),
+            running: true,
+            swarmId: useSwarm ? `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}` : null,
+            shares: new Map(useSwarm ? swarmPeers.map((peer, index) => [peer.clientId, index]) : []),
+            // 受信者ごとに縮小されるとインデックスが揃わず交換できないため、最小値に合わせる
+            subChunkSize: useSwarm ? Math.min(...swarmPeers.map(peer => peer.webrtc.fitSubChunkSize(SWARM_SUB_CHUNK_SIZE))) : SWARM_SUB_CHUNK_SIZE,
+            pieceKey: btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+        };
+        this.broadcast = job;
+        this.updateBroadcastButton();
+        this.updateStatus('sending', `📡 ${file.name} を${targets.length}人へ一斉送信中...`);
+        console.log(`📡 一斉送信開始: ${file.name} → ${targets.length}人${useSwarm ? `（${swarmPeers.length}人で交換）` : ''}`);
+
+        targets.forEach(peer => peer.panel.applySettings());
+        await Promise.all(targets.map(peer => this.broadcastToPeer(job, peer)));
+
+        job.running = false;
+        this.updateBroadcastButton();
+
+        const results = job.source.getPeers();
+        const completed = results.filter(result => result.status === 'completed').length;
+        console.log(`📡 一斉送信終了: ${completed}/${results.length}人 (ディスク読み込み ${this.formatFileSize(job.source.diskBytesRead)})`);
+        if (completed === results.length) {
+            this.updateStatus('all-completed', `🎉 ${file.name} を${completed}人全員に送信しました！`);
+        } else {
+            this.showError(`${file.name} の一斉送信: ${results.length - completed}人への送信に失敗しました`);
         }
+    }
+
+    // 1人分の一斉送信
+    private async broadcastToPeer(job: BroadcastJob, peer: PeerSession): Promise<void> {
+        const peerId = String(peer.clientId);
+        const reader = job.source.createReader(peerId);
+        this.updateBroadcastList(job);
+
+        let batchId: string | null = null;
+        try {
+            const batch = await peer.webrtc.sendBatchStart([job.file]);
+            batchId = batch.batchId;
+            peer.panel.updateSendButton();
+            const share = job.shares.get(peer.clientId);
+            const swarm: SwarmShare | null = job.swarmId && share !== undefined ? {
+                swarmId: job.swarmId,
+                share: share,
+                shareCount: job.shares.size,
+                subChunkSize: job.subChunkSize,
+                pieceKey: job.pieceKey
+            } : null;
+            await peer.webrtc.sendFile(job.file, batch.files[0].fileId, job.file.name, reader, swarm);
+            job.source.finish(peerId, true);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('❌ 一斉送信エラー:', peer.clientId, errorMessage);
+            job.source.finish(peerId, false, errorMessage);
+        } finally {
+            // 退出済みの相手にはバッチ終了を送らない
+            if (batchId && this.peers.has(peer.clientId)) {
+                await peer.webrtc.sendBatchEnd(batchId).catch(error => {
+                    console.warn('⚠️ batch-end送信エラー（無視）:', error);
+                });
+            }
+            peer.panel.updateSendButton();
+            this.updateBroadcastList(job);
+        }
+    }
+
+    // 一斉送信の受信者一覧（名前は参加者の自己申告なのでtextContentで表示する）
+    private updateBroadcastList(job: BroadcastJob): void {
+        const list = document.getElementById('broadcastList');
+        if (!list || this.broadcast !== job) return;
+
+        list.innerHTML = '';
+        job.rows.clear();
+        job.source.getPeers().forEach(state => {
+            const clientId = Number(state.peerId);
+            const item = document.createElement('div');
+            item.className = 'file-item';
+
+            const name = document.createElement('div');
+            name.className = 'join-request-name';
+            name.textContent = `👤 ${job.names.get(clientId) || state.peerId}`;
 
-        // 受信速度計算
-        this.calculateReceiveSpeed();
+            const status = document.createElement('span');
+            status.className = `status-indicator ${state.status}`;
+            switch (state.status) {
+                case 'sending':
+                    status.textContent = '📤 送信中';
+                    job.rows.set(clientId, status);
+                    break;
+                case 'completed':
+                    status.textContent = '✅ 送信完了';
+                    break;
+                case 'failed':
+                    status.textContent = '❌ 送信失敗';
+                    status.title = state.error || '';
+                    break;
+            }
+
+            item.append(name, status);
+            list.appendChild(item);
+        });
     }
 
-    // 詳細統計更新
-    private updateDetailedStats(stats: TransferStats): void {
-        const mainChunksCompleted = document.getElementById('mainChunksCompleted') as HTMLElement;
-        const subChunksCompleted = document.getElementById('subChunksCompleted') as HTMLElement;
-        const receiveSpeed = document.getElementById('receiveSpeed') as HTMLElement;
-        const failedChunks = document.getElementById('failedChunks') as HTMLElement;
+    // 一斉送信中の受信者ごとの進捗
+    private updateBroadcastProgress(peer: PeerSession, progress: number): void {
+        const status = this.broadcast?.rows.get(peer.clientId);
+        if (status) {
+            status.textContent = `📤 送信中 ${progress.toFixed(1)}%`;
+        }
+    }
 
-        if (mainChunksCompleted) {
-            mainChunksCompleted.textContent = `${stats.mainChunksCompleted}/${stats.totalMainChunks}`;
+    // 保存先フォルダ選択
+    private async pickSaveDirectory(): Promise<void> {
+        try {
+            this.saveDirectory = await window.showDirectoryPicker!({ mode: 'readwrite' });
+            const saveTarget = document.getElementById('saveTarget') as HTMLElement;
+            if (saveTarget) saveTarget.textContent = `📂 ${this.saveDirectory.name}`;
+            console.log('📂 保存先フォルダ選択:', this.saveDirectory.name);
+        } catch (error: unknown) {
+            // キャンセル時は何もしない
+            console.log('📂 保存先フォルダ選択をキャンセル:', error);
         }
-        if (subChunksCompleted) {
-            subChunksCompleted.textContent = `${stats.chunksCompleted}/${stats.totalChunks}`;
+    }
+
+    // バッチ開始処理 - 送信予定のファイルを待機中として一覧に追加
+    private handleBatchStart(peer: PeerSession, batchId: string, files: BatchFileEntry[]): void {
+        console.log(`📦 バッチ開始: ${batchId} (${files.length}ファイル) from ${peer.clientId}`);
+        files.forEach(file => {
+            this.receivedFiles.push({
+                fileId: file.fileId,
+                name: file.name,
+                size: file.size,
+                relativePath: file.relativePath,
+                status: 'queued',
+                clientId: peer.clientId,
+                sender: peer.name
+            });
+        });
+        this.updateReceivedFilesList();
+
+        // ZIP指定時は届いたファイルから順にZIPへ書き出す（保存先フォルダ選択時は直接保存されるので不要）
+        if (this.downloadMode !== 'individual' && !this.saveDirectory) {
+            const name = this.getZipName(files.map(file => file.relativePath));
+            peer.batchZip = this.createZipJob(batchId, name, this.downloadMode);
         }
-        if (receiveSpeed) {
-            receiveSpeed.textContent = this.calculateReceiveSpeed() + ' MB/s';
+    }
+
+    // バッチ終了処理 - 届かなかったファイルを失敗にする
+    private handleBatchEnd(peer: PeerSession, batchId: string): void {
+        console.log(`📦 バッチ終了: ${batchId} from ${peer.clientId}`);
+        // バッチIDは送信者ごとに採番されるため送信者でも絞り込む
+        const batchFiles = this.receivedFiles.filter(file => file.clientId === peer.clientId && file.fileId?.startsWith(`${batchId}-`));
+        batchFiles.forEach(file => {
+            if (file.status === 'queued') {
+                file.status = 'failed';
+                file.error = '送信が中止されました';
+            }
+        });
+        this.updateReceivedFilesList();
+
+        if (peer.batchZip && peer.batchZip.batchId === batchId) {
+            const job = peer.batchZip;
+            peer.batchZip = null;
+            this.finishZipJob(job);
+            return;
         }
-        if (failedChunks) {
-            failedChunks.textContent = stats.failedChunks.toString();
+
+        // フォルダ内のファイルは構造を保つためZIPにまとめてダウンロード
+        const folderFiles = batchFiles.filter(file => file.status === 'completed' && this.isFolderFile(file) && !file.savedToDisk && file.blob);
+        if (folderFiles.length > 0) {
+            const job = this.createZipJob(batchId, this.getZipName(folderFiles.map(file => file.relativePath!)), 'store');
+            folderFiles.forEach(file => this.addToZipJob(job, file));
+            this.finishZipJob(job);
         }
     }
 
-    // 受信速度計算
-    private calculateReceiveSpeed(): string {
-        if (!this.receiveStartTime || !this.webrtc.receiveManager) return '0';
+    // フォルダ送信されたファイルか（相対パスにフォルダ区切りを含む）
+    private isFolderFile(fileData: FileInfo): boolean {
+        return !!fileData.relativePath && window.splitRelativePath(fileData.relativePath).length > 1;
+    }
+
+    // ZIP名（先頭フォルダが1つならその名前にする）
+    private getZipName(relativePaths: string[]): string {
+        const roots = new Set(relativePaths.map(path => {
+            const segments = window.splitRelativePath(path);
+            return segments.length > 1 ? segments[0] : '';
+        }));
+        return roots.size === 1 && !roots.has('') ? `${[...roots][0]}.zip` : `fast-transfer-${Date.now()}.zip`;
+    }
 
-        const now = Date.now();
-        const timeDiff = (now - this.lastProgressUpdate) / 1000; // 秒
-        const bytesDiff = this.webrtc.receiveManager.totalReceived - this.lastBytesReceived;
+    // ZIP書き出しを開始（OPFSに書き出し、メモリには保持しない）
+    private createZipJob(batchId: string, name: string, compression: ZipCompression): ZipJob {
+        console.log(`🗜️ ZIP作成開始: ${name} (${compression})`);
+        const archive = window.createFileSink(name, 0, null)
+            .then(sink => new window.ZipArchive(sink, compression));
+
+        const job: ZipJob = {
+            batchId: batchId,
+            name: name,
+            archive: archive,
+            queue: archive.then(() => undefined, error => this.failZipJob(job, error)),
+            failed: false
+        };
+        return job;
+    }
 
-        if (timeDiff > 0) {
-            const speedMBps = (bytesDiff / (1024 * 1024)) / timeDiff;
-            this.lastProgressUpdate = now;
-            this.lastBytesReceived = this.webrtc.receiveManager.totalReceived;
-            return speedMBps.toFixed(1);
+    // ZIPにファイルを追加（到着順に直列化）
+    private addToZipJob(job: ZipJob, fileData: FileInfo): void {
+        job.queue = job.queue
+            .then(async () => {
+                if (job.failed) return;
+                const archive = await job.archive;
+                await archive.addFile(fileData.relativePath || fileData.name, fileData.blob!);
+                // ZIPに書き写したので受信時の一時ファイルは不要
+                if (fileData.release) {
+                    await fileData.release();
+                    fileData.release = undefined;
+                }
+                this.updateStatus('receiving', `🗜️ ${fileData.relativePath || fileData.name} をZIPに追加しました`);
+            })
+            .catch(error => this.failZipJob(job, error));
+    }
+
+    // ZIPを確定してダウンロード
+    private async finishZipJob(job: ZipJob): Promise<void> {
+        await job.queue;
+        if (job.failed) return;
+
+        try {
+            const archive = await job.archive;
+            if (archive.fileCount === 0) {
+                await archive.abort();
+                return;
+            }
+
+            this.updateStatus('receiving', `🗜️ ${job.name} を作成しています...`);
+            const blob = await archive.finish();
+            this.downloadFile({ name: job.name, size: blob.size, blob: blob, release: () => archive.release() });
+        } catch (error) {
+            this.failZipJob(job, error);
         }
+    }
+
+    // ZIP作成失敗処理
+    private failZipJob(job: ZipJob, error: unknown): void {
+        if (job.failed) return;
+        job.failed = true;
 
-        return '0';
+        console.error('❌ ZIP作成エラー:', error);
+        this.showError(`${job.name} の作成に失敗しました`);
+        job.archive
+            .then(archive => archive.abort())
+            .catch(abortError => console.warn('⚠️ ZIPの破棄に失敗:', abortError));
+    }
+
+    // ファイルの状態を更新（一覧にない場合は追加）
+    private setFileStatus(peer: PeerSession, fileData: FileInfo, status: FileTransferStatus, error?: string): void {
+        const entry = fileData.fileId
+            ? this.receivedFiles.find(file => file.clientId === peer.clientId && file.fileId === fileData.fileId)
+            : undefined;
+
+        if (entry) {
+            Object.assign(entry, fileData, { status, error });
+        } else {
+            this.receivedFiles.push({ ...fileData, status, error, clientId: peer.clientId, sender: peer.name });
+        }
+        this.updateReceivedFilesList();
     }
 
     // ファイル受信完了処理
-    private handleFileReceived(fileData: FileInfo): void {
+    private handleFileReceived(peer: PeerSession, fileData: FileInfo): void {
         console.log('✅ ファイル受信完了:', fileData.name);
-        this.receivedFiles.push(fileData);
 
         // 受信ファイルリストを更新
-        this.updateReceivedFilesList();
+        this.setFileStatus(peer, fileData, 'completed');
 
-        // 自動でダウンロードを開始
-        this.downloadFile(fileData);
+        // 保存先フォルダに書き込み済みでなければ自動でダウンロードを開始
+        if (fileData.savedToDisk) {
+            this.updatePeerStatus(peer, 'completed', `✅ ${fileData.relativePath || fileData.name} を保存しました！`);
+        } else if (peer.batchZip && fileData.fileId?.startsWith(`${peer.batchZip.batchId}-`)) {
+            // ZIP指定時は届いた順にZIPへ書き出す
+            this.addToZipJob(peer.batchZip, fileData);
+        } else if (this.isFolderFile(fileData)) {
+            // フォルダ内のファイルはバッチ終了時にZIPでまとめてダウンロード
+            this.updatePeerStatus(peer, 'completed', `✅ ${fileData.relativePath} 受信完了（バッチ終了後にZIPで保存）`);
+        } else {
+            this.downloadFile(fileData);
+        }
     }
 
-    // 現在受信中のファイル情報更新
-    private updateCurrentFileInfo(filename: string, filesize: number): void {
-        const fileInfo = document.getElementById('fileInfo') as HTMLElement;
-        const fileName = document.getElementById('fileName') as HTMLElement;
-        const fileSize = document.getElementById('fileSize') as HTMLElement;
-
-        if (fileInfo) fileInfo.style.display = 'block';
-        if (fileName) fileName.textContent = `📄 ${filename}`;
-        if (fileSize) fileSize.textContent = `📏 ${this.formatFileSize(filesize)}`;
+    // ファイル受信失敗処理（ダウンロードはしない）
+    private handleFileFailed(peer: PeerSession, fileInfo: FileInfo, reason: string): void {
+        console.error('❌ ファイル受信失敗:', fileInfo.name, reason);
+        this.setFileStatus(peer, fileInfo, 'failed', reason);
+        this.showError(`${fileInfo.name} の受信に失敗しました: ${reason}`);
     }
 
     // 受信ファイルリスト更新
@@ -342,13 +992,18 @@ class ServerManagerV2 {
             fileItem.className = 'file-item';
             fileItem.innerHTML = `
                 <div class="received-file-info">
-                    <div class="received-file-name" style="font-weight: 600; color: #333; margin-bottom: 4px; word-break: break-all;" title="${file.name}">${file.name}</div>
-                    <div class="received-file-size" style="color: #666; font-size: 0.9rem;">${this.formatFileSize(file.size)}</div>
-                </div>
-                <div class="received-file-status">
-                    <span style="color: #28a745; font-size: 0.9rem; font-weight: 500;">✅ 受信完了</span>
+                    <div class="received-file-name" style="font-weight: 600; color: #333; margin-bottom: 4px; word-break: break-all;"></div>
+                    <div class="received-file-size" style="color: #666; font-size: 0.9rem;">${this.formatFileSize(file.size)} - <span class="received-file-sender"></span></div>
                 </div>
+                <div class="received-file-status"></div>
             `;
+            // ファイル名は相手の環境に依存し、送信者名は参加者の自己申告なのでtextContentで表示する
+            const name = fileItem.querySelector('.received-file-name') as HTMLElement;
+            name.textContent = file.relativePath || file.name;
+            name.title = file.relativePath || file.name;
+            const sender = fileItem.querySelector('.received-file-sender');
+            if (sender) sender.textContent = `👤 ${file.sender}`;
+            fileItem.querySelector('.received-file-status')?.appendChild(this.renderFileStatus(file.status, file.error));
             fileList.appendChild(fileItem);
         });
 
@@ -362,6 +1017,32 @@ class ServerManagerV2 {
         }
     }
 
+    // ファイル状態の表示（失敗理由は相手から届く文字列なのでtitle属性に直接設定する）
+    private renderFileStatus(status: FileTransferStatus, error?: string): HTMLElement {
+        const span = document.createElement('span');
+        span.style.cssText = 'font-size: 0.9rem; font-weight: 500;';
+        switch (status) {
+            case 'queued':
+                span.style.color = '#6c757d';
+                span.textContent = '⏳ 待機中';
+                break;
+            case 'receiving':
+                span.style.color = '#007bff';
+                span.textContent = '📥 受信中';
+                break;
+            case 'failed':
+                span.style.color = '#dc3545';
+                span.textContent = '❌ 受信失敗';
+                span.title = error || '';
+                break;
+            case 'completed':
+                span.style.color = '#28a745';
+                span.textContent = '✅ 受信完了';
+                break;
+        }
+        return span;
+    }
+
     // 受信ファイルリストをクリア
     private clearReceivedFiles(): void {
         this.receivedFiles = [];
@@ -371,7 +1052,8 @@ class ServerManagerV2 {
 
     // ファイルダウンロード
     private downloadFile(fileData: FileInfo): void {
-        const blob = new Blob([fileData.data], { type: 'application/octet-stream' });
+        // OPFS上のFileやBlobはそのまま渡し、メモリに読み込まない
+        const blob = fileData.blob || new Blob(fileData.data ? [fileData.data] : [], { type: 'application/octet-stream' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -380,6 +1062,7 @@ class ServerManagerV2 {
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
+        window.releaseAfterDownload(fileData);
 
         console.log('💾 ファイルダウンロード完了:', fileData.name);
         this.updateStatus('completed', `✅ ${fileData.name} ダウンロード完了！`);
@@ -408,7 +1091,11 @@ class ServerManagerV2 {
     // ステータス更新
     private updateStatus(state: string, message: string): void {
         const statusEl = document.getElementById('status') as HTMLElement;
-        statusEl.innerHTML = `<span class="${state}">${message}</span>`;
+        // ZIPに追加したファイル名や相手の送信状況など外部由来の文字列を含むためtextContentで表示する
+        const span = document.createElement('span');
+        span.className = state;
+        span.textContent = message;
+        statusEl.replaceChildren(span);
     }
 }
 
@@ -0,0 +1,512 @@
+/**
+ * 受信者同士のメッシュ接続（スウォーム配布）
+ * 一斉送信の受信者が、受信済みのサブチャンクを広告し合い、足りないものを互いに取り寄せる
+ * 接続の確立だけシグナリングサーバーで中継し、データは受信者間のDataChannelで直接やり取りする
+ * ピースは送信元からE2Eの接続で受け取ったスウォームごとの鍵で暗号化するため、シグナリングサーバーが中継に割り込んでも読めない
+ * 接続はスウォーム配布の受信中にだけ張り、配布が終わってしばらく使われなければ閉じる
+ */
+import type { WebRTCManagerV2, SwarmMesh as SwarmMeshInterface, SwarmSignal } from './types.js';
+
+const SWARM_CHANNEL_LABEL = 'swarm';
+const MAX_OUTSTANDING_REQUESTS = 4;          // 1ピアあたりの同時要求数
+const REQUEST_TIMEOUT = 15000;               // 応答がない要求を諦めるまでの時間
+const PIECE_CACHE_LIMIT = 64 * 1024 * 1024;  // 他の受信者へ提供するために保持する上限
+const FRAGMENT_SIZE = 64 * 1024;             // DataChannelの最大メッセージサイズに収まるよう分割
+const SEND_BUFFER_LIMIT = 4 * 1024 * 1024;
+const TICK_INTERVAL = 500;
+const JOIN_INTERVAL = 10000;                 // 未接続の受信者へ交換を呼びかける間隔
+const LINK_IDLE_TIMEOUT = 30000;             // 配布が終わってから使われていない接続を閉じるまでの時間
+const IV_SIZE = 12;                          // ピースの先頭に付けるAES-GCMのIV
+const PIECE_OVERHEAD = IV_SIZE + 16;         // IVと認証タグ
+
+type SwarmMessage =
+    | { type: 'have'; swarmKey: string; indexes: number[] }
+    | { type: 'request'; swarmKey: string; index: number }
+    | { type: 'piece'; swarmKey: string; index: number; size: number }
+    | { type: 'reject'; swarmKey: string; index: number };
+
+interface IncomingPiece {
+    swarmKey: string;
+    index: number;
+    size: number;
+    parts: ArrayBuffer[];
+    received: number;
+}
+
+interface SwarmLink {
+    peerId: number;
+    pc: RTCPeerConnection;
+    channel: RTCDataChannel | null;
+    haveKey: string | null;                   // 相手が広告しているファイル
+    have: Set<number>;
+    requests: Map<number, number>;            // 要求中のindex -> 要求時刻
+    incoming: IncomingPiece | null;
+    sendQueue: Promise<void>;                 // ピースのヘッダーと本体が混ざらないよう直列化
+    pendingCandidates: RTCIceCandidateInit[];
+    lastActivity: number;
+}
+
+class SwarmMesh implements SwarmMeshInterface {
+    private links: Map<number, SwarmLink> = new Map();
+    private webrtc: WebRTCManagerV2 | null = null;
+    private cache: Map<string, ArrayBuffer> = new Map(); // `${swarmKey}#${index}` -> 検証済みのピース（挿入順に追い出す）
+    private cacheBytes: number = 0;
+    private pendingHave: Map<string, number[]> = new Map();
+    private banned: Set<number> = new Set(); // 送信元のchecksumと合わないピースを送ってきた受信者
+    private selfId: number | null = null;
+    private knownPeers: Set<number> = new Set(); // 同じ部屋の他の受信者（接続は配布中にだけ張る）
+    private joinSentAt: Map<number, number> = new Map();
+    private pieceKeys: Map<string, CryptoKey> = new Map(); // swarmKey -> ピースの暗号鍵（キャッシュから提供するため配布後も保持）
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(private sendSignal: (to: number, signal: SwarmSignal) => void) {}
+
+    get peerCount(): number {
+        return Array.from(this.links.values()).filter(link => link.channel?.readyState === 'open').length;
+    }
+
+    /**
+     * 送信元との接続に繋ぎ、受信したサブチャンクを他の受信者へ提供できるようにする
+     */
+    attach(webrtc: WebRTCManagerV2): void {
+        this.webrtc = webrtc;
+        webrtc.onSwarmChunk = (swarmKey, index, data) => {
+            this.storePiece(swarmKey, index, data);
+        };
+
+        if (!this.timer) {
+            this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+        }
+    }
+
+    /**
+     * 部屋に参加した時点の自分のIDと、先に参加している受信者
+     */
+    setPeers(selfId: number, peerIds: number[]): void {
+        this.selfId = selfId;
+        peerIds.forEach(peerId => this.knownPeers.add(peerId));
+    }
+
+    /**
+     * 後から部屋に参加した受信者
+     */
+    addPeer(peerId: number): void {
+        this.knownPeers.add(peerId);
+    }
+
+    /**
+     * シグナリングサーバー経由で届いた呼びかけ・SDP・ICE候補を処理
+     */
+    async handleSignal(from: number, signal: SwarmSignal): Promise<void> {
+        if (this.banned.has(from) || !this.knownPeers.has(from)) return;
+        let link = this.links.get(from);
+
+        if ('join' in signal) {
+            // 同じファイルを受信中か提供できるピースがあれば応じる（同時に接続を始めないよう番号の小さい側から）
+            if (link || !this.participates(signal.join)) return;
+            if (this.selfId !== null && this.selfId < from) {
+                this.openLink(from);
+            } else {
+                this.sendSignal(from, { join: signal.join });
+            }
+        } else if ('description' in signal) {
+            if (signal.description.type === 'offer') {
+                // 交換するものがなければ接続しない。同じ相手からの再接続は作り直す
+                if (!this.webrtc?.getSwarmReceive() && this.cache.size === 0) return;
+                if (link) this.closeLink(from);
+                link = this.createLink(from);
+            }
+            if (!link) return;
+
+            await link.pc.setRemoteDescription(signal.description);
+            for (const candidate of link.pendingCandidates) {
+                await link.pc.addIceCandidate(candidate);
+            }
+            link.pendingCandidates = [];
+
+            if (signal.description.type === 'offer') {
+                const answer = await link.pc.createAnswer();
+                await link.pc.setLocalDescription(answer);
+                this.sendSignal(from, { description: link.pc.localDescription!.toJSON() });
+            }
+        } else if (link) {
+            if (link.pc.remoteDescription) {
+                await link.pc.addIceCandidate(signal.candidate);
+            } else {
+                link.pendingCandidates.push(signal.candidate);
+            }
+        }
+    }
+
+    /**
+     * 退出した受信者との接続を閉じる（要求中のピースは他の受信者か送信元から取り直す）
+     */
+    removePeer(peerId: number): void {
+        this.knownPeers.delete(peerId);
+        this.joinSentAt.delete(peerId);
+        this.closeLink(peerId);
+    }
+
+    private closeLink(peerId: number): void {
+        const link = this.links.get(peerId);
+        if (!link) return;
+
+        this.links.delete(peerId);
+        link.channel?.close();
+        link.pc.close();
+        console.log(`🐝 スウォーム接続終了: peer ${peerId}`);
+    }
+
+    /**
+     * 受信中のファイル、またはキャッシュに持っているファイルの交換か
+     */
+    private participates(swarmKey: string): boolean {
+        if (this.webrtc?.getSwarmReceive()?.swarmKey === swarmKey) return true;
+        for (const key of this.cache.keys()) {
+            if (key.startsWith(`${swarmKey}#`)) return true;
+        }
+        return false;
+    }
+
+    private openLink(peerId: number): void {
+        const link = this.createLink(peerId);
+        link.channel = link.pc.createDataChannel(SWARM_CHANNEL_LABEL, { ordered: true });
+        this.setupChannel(link);
+        this.sendOffer(link).catch(error => {
+            console.warn(`⚠️ スウォーム接続の開始に失敗 (peer ${peerId}):`, error);
+            this.closeLink(peerId);
+        });
+    }
+
+    private createLink(peerId: number): SwarmLink {
+        const pc = new RTCPeerConnection({
+            iceServers: [
+                { urls: 'stun:stun.l.google.com:19302' }
+            ]
+        });
+
+        const link: SwarmLink = {
+            peerId,
+            pc,
+            channel: null,
+            haveKey: null,
+            have: new Set(),
+            requests: new Map(),
+            incoming: null,
+            sendQueue: Promise.resolve(),
+            pendingCandidates: [],
+            lastActivity: Date.now()
+        };
+
+        pc.onicecandidate = (event) => {
+            if (event.candidate) {
+                this.sendSignal(peerId, { candidate: event.candidate.toJSON() });
+            }
+        };
+        pc.ondatachannel = (event) => {
+            if (event.channel.label !== SWARM_CHANNEL_LABEL) return;
+            link.channel = event.channel;
+            this.setupChannel(link);
+        };
+        pc.onconnectionstatechange = () => {
+            if (pc.connectionState === 'failed' && this.links.get(peerId) === link) {
+                this.closeLink(peerId);
+            }
+        };
+
+        this.links.set(peerId, link);
+        return link;
+    }
+
+    private async sendOffer(link: SwarmLink): Promise<void> {
+        const offer = await link.pc.createOffer();
+        await link.pc.setLocalDescription(offer);
+        this.sendSignal(link.peerId, { description: link.pc.localDescription!.toJSON() });
+    }
+
+    private setupChannel(link: SwarmLink): void {
+        const channel = link.channel!;
+        channel.binaryType = 'arraybuffer';
+
+        channel.onopen = () => {
+            console.log(`🐝 スウォーム接続確立: peer ${link.peerId}`);
+            this.announceCache(link);
+        };
+        channel.onclose = () => {
+            if (this.links.get(link.peerId) === link) {
+                this.closeLink(link.peerId);
+            }
+        };
+        channel.onmessage = (event) => {
+            link.lastActivity = Date.now();
+            if (typeof event.data === 'string') {
+                let message: SwarmMessage;
+                try {
+                    message = JSON.parse(event.data) as SwarmMessage;
+                } catch (error) {
+                    console.warn(`⚠️ 不正なスウォームメッセージを無視 (peer ${link.peerId})`);
+                    return;
+                }
+                this.handleMessage(link, message);
+            } else {
+                this.handleFragment(link, event.data as ArrayBuffer).catch(error => {
+                    console.warn(`⚠️ スウォームピース処理エラー (peer ${link.peerId}):`, error);
+                });
+            }
+        };
+    }
+
+    private handleMessage(link: SwarmLink, message: SwarmMessage): void {
+        switch (message.type) {
+            case 'have':
+                if (link.haveKey !== message.swarmKey) {
+                    // 一斉送信は1ファイルずつなので、別のファイルに移ったら入れ替える
+                    link.haveKey = message.swarmKey;
+                    link.have = new Set();
+                }
+                message.indexes.forEach(index => link.have.add(index));
+                break;
+            case 'request':
+                link.sendQueue = link.sendQueue
+                    .then(() => this.sendPiece(link, message.swarmKey, message.index))
+                    .catch(error => console.warn(`⚠️ スウォームピース送信エラー (peer ${link.peerId}):`, error));
+                break;
+            case 'piece':
+                // サブチャンクサイズを超える申告は受け付けない（メモリを使い切らせない）
+                if (!(message.size <= this.pieceSizeLimit(message.swarmKey))) {
+                    this.banPeer(link, `ピースのサイズが不正です (${message.size}B)`);
+                    return;
+                }
+                link.incoming = { swarmKey: message.swarmKey, index: message.index, size: message.size, parts: [], received: 0 };
+                break;
+            case 'reject':
+                // キャッシュから追い出されていた
+                link.requests.delete(message.index);
+                if (link.haveKey === message.swarmKey) {
+                    link.have.delete(message.index);
+                }
+                break;
+        }
+    }
+
+    /**
+     * 要求されたピースを暗号化し、ヘッダーと分割した本体で返す（順序保証のチャネルなので続けて届く）
+     * 本体は [IV 12B][暗号文]、AADは `${swarmKey}#${index}` で別のピースへの差し替えを検出する
+     */
+    private async sendPiece(link: SwarmLink, swarmKey: string, index: number): Promise<void> {
+        const channel = link.channel;
+        if (!channel || channel.readyState !== 'open') return;
+
+        const data = this.cache.get(`${swarmKey}#${index}`);
+        const key = this.pieceKeys.get(swarmKey);
+        if (!data || !key) {
+            this.sendMessage(link, { type: 'reject', swarmKey, index });
+            return;
+        }
+
+        const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+        const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: this.pieceAad(swarmKey, index) }, key, data);
+        const piece = new Uint8Array(IV_SIZE + encrypted.byteLength);
+        piece.set(iv);
+        piece.set(new Uint8Array(encrypted), IV_SIZE);
+
+        link.lastActivity = Date.now();
+        this.sendMessage(link, { type: 'piece', swarmKey, index, size: piece.byteLength });
+        for (let offset = 0; offset < piece.byteLength; offset += FRAGMENT_SIZE) {
+            while (channel.readyState === 'open' && channel.bufferedAmount > SEND_BUFFER_LIMIT) {
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+            if (channel.readyState !== 'open') return;
+            channel.send(piece.slice(offset, offset + FRAGMENT_SIZE).buffer);
+        }
+    }
+
+    private async handleFragment(link: SwarmLink, data: ArrayBuffer): Promise<void> {
+        const incoming = link.incoming;
+        if (!incoming) return;
+
+        incoming.parts.push(data);
+        incoming.received += data.byteLength;
+        if (incoming.received < incoming.size) return;
+
+        link.incoming = null;
+        link.requests.delete(incoming.index);
+
+        const piece = new Uint8Array(incoming.received);
+        let offset = 0;
+        for (const part of incoming.parts) {
+            piece.set(new Uint8Array(part), offset);
+            offset += part.byteLength;
+        }
+
+        // 受信を終えていれば使わない
+        const state = this.webrtc?.getSwarmReceive();
+        if (!state || state.swarmKey !== incoming.swarmKey) return;
+
+        let chunk: ArrayBuffer;
+        try {
+            chunk = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: piece.slice(0, IV_SIZE), additionalData: this.pieceAad(incoming.swarmKey, incoming.index) },
+                state.pieceKey,
+                piece.slice(IV_SIZE)
+            );
+        } catch (error) {
+            this.banPeer(link, `ピースを復号できません (index ${incoming.index})`);
+            return;
+        }
+
+        // 受信マネージャー側で送信元のchecksumと照合して書き込む（送信元からも届いていれば取り込まれない）
+        const result = await this.webrtc?.acceptSwarmChunk(incoming.swarmKey, incoming.index, chunk);
+        if (result === 'accepted') {
+            console.log(`🐝 ピース取得: index ${incoming.index} (peer ${link.peerId})`);
+            this.storePiece(incoming.swarmKey, incoming.index, chunk);
+        } else if (result === 'invalid') {
+            this.banPeer(link, `送信元のchecksumと合わないピースです (index ${incoming.index})`);
+        }
+    }
+
+    /**
+     * 壊れた・改ざんされたピースを広めないよう、その受信者とは以後交換しない
+     */
+    private banPeer(link: SwarmLink, reason: string): void {
+        console.warn(`⚠️ スウォーム接続を切断: peer ${link.peerId} - ${reason}`);
+        this.banned.add(link.peerId);
+        this.closeLink(link.peerId);
+    }
+
+    private pieceAad(swarmKey: string, index: number): ArrayBuffer {
+        return new TextEncoder().encode(`${swarmKey}#${index}`).buffer as ArrayBuffer;
+    }
+
+    /**
+     * swarmKey（swarmId/サブチャンクサイズ）から見たピースの最大サイズ
+     */
+    private pieceSizeLimit(swarmKey: string): number {
+        const subChunkSize = Number(swarmKey.slice(swarmKey.lastIndexOf('/') + 1));
+        return Number.isFinite(subChunkSize) ? subChunkSize + PIECE_OVERHEAD : 0;
+    }
+
+    /**
+     * 検証済みのピースを保持し、他の受信者へ広告する
+     */
+    private storePiece(swarmKey: string, index: number, data: ArrayBuffer): void {
+        const key = `${swarmKey}#${index}`;
+        if (this.cache.has(key)) return;
+
+        // 配布が終わった後もキャッシュから提供できるよう鍵を控えておく
+        const state = this.webrtc?.getSwarmReceive();
+        if (state?.swarmKey === swarmKey) {
+            this.pieceKeys.set(swarmKey, state.pieceKey);
+        }
+
+        this.cache.set(key, data);
+        this.cacheBytes += data.byteLength;
+        while (this.cacheBytes > PIECE_CACHE_LIMIT) {
+            const [oldestKey, oldest] = this.cache.entries().next().value as [string, ArrayBuffer];
+            this.cache.delete(oldestKey);
+            this.cacheBytes -= oldest.byteLength;
+        }
+
+        const indexes = this.pendingHave.get(swarmKey) || [];
+        indexes.push(index);
+        this.pendingHave.set(swarmKey, indexes);
+    }
+
+    /**
+     * 接続直後に保持しているピースをまとめて広告する
+     */
+    private announceCache(link: SwarmLink): void {
+        const bySwarm = new Map<string, number[]>();
+        for (const key of this.cache.keys()) {
+            const separator = key.lastIndexOf('#');
+            const swarmKey = key.slice(0, separator);
+            const indexes = bySwarm.get(swarmKey) || [];
+            indexes.push(Number(key.slice(separator + 1)));
+            bySwarm.set(swarmKey, indexes);
+        }
+        bySwarm.forEach((indexes, swarmKey) => this.sendMessage(link, { type: 'have', swarmKey, indexes }));
+    }
+
+    private sendMessage(link: SwarmLink, message: SwarmMessage): void {
+        if (link.channel?.readyState === 'open') {
+            link.channel.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * 広告の送信と不足ピースの要求を定期的に行う
+     */
+    private tick(): void {
+        const openLinks = Array.from(this.links.values()).filter(link => link.channel?.readyState === 'open');
+
+        // 受信済みの広告はまとめて送る
+        if (this.pendingHave.size > 0) {
+            this.pendingHave.forEach((indexes, swarmKey) => {
+                openLinks.forEach(link => this.sendMessage(link, { type: 'have', swarmKey, indexes }));
+            });
+            this.pendingHave.clear();
+        }
+
+        const now = Date.now();
+        const state = this.webrtc?.getSwarmReceive();
+        if (!state) {
+            // 配布が終わったら、しばらく使われていない接続を閉じる
+            this.links.forEach(link => {
+                if (now - link.lastActivity > LINK_IDLE_TIMEOUT) {
+                    this.closeLink(link.peerId);
+                }
+            });
+            return;
+        }
+
+        // 未接続の受信者に交換を呼びかける（同じファイルを受信中の相手だけが応じる）
+        this.knownPeers.forEach(peerId => {
+            if (this.links.has(peerId) || this.banned.has(peerId)) return;
+            if (now - (this.joinSentAt.get(peerId) || 0) < JOIN_INTERVAL) return;
+            this.joinSentAt.set(peerId, now);
+            this.sendSignal(peerId, { join: state.swarmKey });
+        });
+
+        // 応答のない要求は諦めて別の受信者か送信元に任せる
+        const requested = new Set<number>();
+        for (const link of openLinks) {
+            link.requests.forEach((requestedAt, index) => {
+                if (now - requestedAt > REQUEST_TIMEOUT) {
+                    link.requests.delete(index);
+                    link.have.delete(index);
+                } else {
+                    requested.add(index);
+                }
+            });
+        }
+
+        // 持っている受信者が少ないピースから取り寄せる（rarest-first、送信元のchecksumが届いて検証できるものに限る）
+        const holders = new Map<number, SwarmLink[]>();
+        for (const link of openLinks) {
+            if (link.haveKey !== state.swarmKey) continue;
+            link.have.forEach(index => {
+                if (state.completedChunks.has(index) || requested.has(index) || !state.checksums.has(index)) return;
+                const list = holders.get(index) || [];
+                list.push(link);
+                holders.set(index, list);
+            });
+        }
+
+        const candidates = Array.from(holders.entries())
+            .map(([index, links]) => ({ index, links, order: Math.random() }))
+            .sort((a, b) => a.links.length - b.links.length || a.order - b.order);
+
+        for (const { index, links } of candidates) {
+            const link = links
+                .filter(l => l.requests.size < MAX_OUTSTANDING_REQUESTS)
+                .sort((a, b) => a.requests.size - b.requests.size)[0];
+            if (!link) continue;
+
+            link.requests.set(index, now);
+            this.sendMessage(link, { type: 'request', swarmKey: state.swarmKey, index });
+        }
+    }
+}
+
+// グローバルエクスポート
+(window as any).SwarmMesh = SwarmMesh;
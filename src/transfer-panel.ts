@@ -0,0 +1,615 @@
+/**
+ * 送受信パネル（client.html / server.html 共通のUI部品）
+ * 1つのWebRTC接続について、ファイル選択・送信と、送信/受信それぞれの進捗を表示する
+ * WebRTCManagerV2のイベントは各ページのマネージャーが受け取り、このパネルのメソッドに渡す
+ */
+import type { FileInfo, TransferStats, TransferDirection, WebRTCManagerV2, ChunkCompressionMode, TransferPanel as TransferPanelInterface, TransferPanelOptions } from './types.js';
+
+const PANEL_TEMPLATE = `
+    <div class="sas-panel" style="display: none;">
+        <div class="sas-label"></div>
+        <div class="sas-code">--- ---</div>
+        <button class="sas-confirm-btn" type="button">✅ 一致を確認</button>
+    </div>
+
+    <div class="file-drop-area" style="display: none;">
+        <div class="file-icon">📁</div>
+        <div class="file-text">100GBファイルもフォルダもOK！ドラッグ&ドロップ</div>
+        <div class="file-text">または</div>
+        <button class="btn select-file-btn" type="button">ファイルを選択</button>
+        <button class="btn select-folder-btn" type="button">フォルダを選択</button>
+        <input type="file" class="file-input" multiple>
+        <input type="file" class="file-input folder-input" webkitdirectory multiple>
+    </div>
+
+    <div class="files-list-container selected-files-container" style="display: none;">
+        <h3>📁 選択ファイル一覧</h3>
+        <div class="files-list selected-files-list"></div>
+    </div>
+
+    <button class="btn send-btn" type="button" style="display: none;" disabled>🚀 高速送信開始</button>
+
+    <div class="files-list-container completed-files-container" style="display: none;">
+        <div style="display: flex; justify-content: space-between; align-items: center;">
+            <h3>✅ 送信完了ファイル</h3>
+            <button class="clear-completed-btn" type="button">クリア</button>
+        </div>
+        <div class="files-list completed-files-list"></div>
+    </div>
+
+    <div class="progress-container send-progress">
+        <h3>📤 送信進捗</h3>
+        <div class="progress-bar">
+            <div class="progress-fill"></div>
+        </div>
+        <div class="progress-text">0%</div>
+        <div class="stats-grid">
+            <div class="stat-item">
+                <div class="stat-value main-chunks-completed">0</div>
+                <div class="stat-label">メインチャンク</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value sub-chunks-completed">0</div>
+                <div class="stat-label">サブチャンク</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value transfer-speed">0 MB/s</div>
+                <div class="stat-label">転送速度</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value failed-chunks">0</div>
+                <div class="stat-label">失敗チャンク</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value adaptive-info">-</div>
+                <div class="stat-label">自動調整</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value compression-ratio">-</div>
+                <div class="stat-label">圧縮率</div>
+            </div>
+        </div>
+    </div>
+
+    <div class="progress-container receive-progress">
+        <h3>📥 受信進捗</h3>
+        <div class="file-info">
+            <div class="file-name receiving-file-name"></div>
+            <div class="file-size receiving-file-size"></div>
+        </div>
+        <div class="progress-bar">
+            <div class="progress-fill"></div>
+        </div>
+        <div class="progress-text">0%</div>
+        <div class="stats-grid">
+            <div class="stat-item">
+                <div class="stat-value main-chunks-completed">0</div>
+                <div class="stat-label">メインチャンク</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value sub-chunks-completed">0</div>
+                <div class="stat-label">サブチャンク</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value transfer-speed">0 MB/s</div>
+                <div class="stat-label">受信速度</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value failed-chunks">0</div>
+                <div class="stat-label">失敗チャンク</div>
+            </div>
+            <div class="stat-item">
+                <div class="stat-value compression-ratio">-</div>
+                <div class="stat-label">圧縮率</div>
+            </div>
+        </div>
+    </div>
+`;
+
+class TransferPanel implements TransferPanelInterface {
+    private root: HTMLElement;
+    private webrtc: WebRTCManagerV2;
+    private options: TransferPanelOptions;
+
+    private selectedFiles: File[] = [];
+    private relativePaths: Map<File, string> = new Map(); // ドロップしたフォルダ内のファイルのパス
+    private completedFiles: FileInfo[] = [];
+    private sending: boolean = false;
+
+    // 方向ごとの速度計算
+    private speedSamples: Record<TransferDirection, { time: number; bytes: number }> = {
+        send: { time: Date.now(), bytes: 0 },
+        receive: { time: Date.now(), bytes: 0 }
+    };
+
+    constructor(root: HTMLElement, webrtc: WebRTCManagerV2, options: TransferPanelOptions) {
+        this.root = root;
+        this.webrtc = webrtc;
+        this.options = options;
+
+        this.root.innerHTML = PANEL_TEMPLATE;
+        const sasLabel = this.find('.sas-label');
+        if (sasLabel) sasLabel.textContent = `🔏 確認コード - ${options.sendTargetLabel}の画面と同じか確認してください`;
+
+        this.setupUI();
+    }
+
+    // パネル内の要素を取得
+    private find<T extends HTMLElement = HTMLElement>(selector: string): T | null {
+        return this.root.querySelector(selector) as T | null;
+    }
+
+    // UIセットアップ
+    private setupUI(): void {
+        const fileInput = this.find<HTMLInputElement>('.file-input:not(.folder-input)');
+        const folderInput = this.find<HTMLInputElement>('.folder-input');
+        const selectFileBtn = this.find('.select-file-btn');
+        const selectFolderBtn = this.find('.select-folder-btn');
+        const dropArea = this.find('.file-drop-area');
+
+        if (selectFileBtn && fileInput) {
+            selectFileBtn.addEventListener('click', () => {
+                fileInput.click();
+            });
+            fileInput.addEventListener('change', () => {
+                if (fileInput.files) {
+                    this.selectFiles(fileInput.files);
+                }
+                fileInput.value = '';
+            });
+        }
+
+        // フォルダ選択（各FileのwebkitRelativePathにフォルダ内パスが入る）
+        if (selectFolderBtn && folderInput) {
+            selectFolderBtn.addEventListener('click', () => {
+                folderInput.click();
+            });
+            folderInput.addEventListener('change', () => {
+                if (folderInput.files) {
+                    this.selectFiles(folderInput.files);
+                }
+                folderInput.value = '';
+            });
+        }
+
+        // ドラッグ&ドロップ
+        if (dropArea) {
+            dropArea.addEventListener('dragover', (e) => {
+                e.preventDefault();
+                dropArea.classList.add('drag-over');
+            });
+
+            dropArea.addEventListener('dragleave', () => {
+                dropArea.classList.remove('drag-over');
+            });
+
+            dropArea.addEventListener('drop', (e) => {
+                e.preventDefault();
+                dropArea.classList.remove('drag-over');
+
+                if (e.dataTransfer && e.dataTransfer.items && e.dataTransfer.items.length > 0) {
+                    this.selectDroppedItems(e.dataTransfer.items).catch(error => {
+                        console.error('❌ ドロップ項目の読み込みエラー:', error);
+                        this.options.onError('ドロップされたフォルダを読み込めませんでした');
+                    });
+                } else if (e.dataTransfer && e.dataTransfer.files) {
+                    this.selectFiles(e.dataTransfer.files);
+                }
+            });
+        }
+
+        this.find('.send-btn')?.addEventListener('click', () => {
+            this.sendFiles();
+        });
+
+        this.find('.clear-completed-btn')?.addEventListener('click', () => {
+            this.clearCompletedFiles();
+        });
+
+        this.find('.sas-confirm-btn')?.addEventListener('click', () => {
+            this.confirmSas();
+        });
+    }
+
+    // 接続状態に合わせてファイル選択UIを表示
+    setConnected(connected: boolean): void {
+        const dropArea = this.find('.file-drop-area');
+        const sendBtn = this.find('.send-btn');
+        if (connected) {
+            if (dropArea) dropArea.style.display = 'block';
+            if (sendBtn) sendBtn.style.display = 'inline-block';
+        }
+        this.updateSendButton();
+    }
+
+    // ファイル選択
+    selectFiles(files: FileList | File[]): void {
+        const newFiles = Array.from(files);
+        this.selectedFiles = [...this.selectedFiles, ...newFiles];
+        this.displaySelectedFiles();
+        this.updateSendButton();
+    }
+
+    // フォルダ内の相対パス（フォルダ選択時はwebkitRelativePath、ドロップ時は走査結果）
+    getRelativePath(file: File): string {
+        return this.relativePaths.get(file) || file.webkitRelativePath || file.name;
+    }
+
+    // ドロップされた項目を選択（フォルダは中身を再帰的に展開）
+    async selectDroppedItems(items: DataTransferItemList): Promise<void> {
+        // エントリーはドロップイベント中に取得しておく必要がある
+        const entries = Array.from(items)
+            .map(item => item.webkitGetAsEntry())
+            .filter((entry): entry is FileSystemEntry => entry !== null);
+
+        const files: File[] = [];
+        for (const entry of entries) {
+            await this.collectEntryFiles(entry, files);
+        }
+
+        console.log(`📂 ドロップされたファイル: ${files.length}個`);
+        this.selectFiles(files);
+    }
+
+    // エントリー配下のファイルを収集
+    private async collectEntryFiles(entry: FileSystemEntry, files: File[]): Promise<void> {
+        if (entry.isFile) {
+            const file = await new Promise<File>((resolve, reject) => {
+                (entry as FileSystemFileEntry).file(resolve, reject);
+            });
+            // fullPathは先頭が「/」
+            this.relativePaths.set(file, entry.fullPath.replace(/^\//, ''));
+            files.push(file);
+            return;
+        }
+
+        if (entry.isDirectory) {
+            const reader = (entry as FileSystemDirectoryEntry).createReader();
+            // readEntriesは一度に全件返さないので空になるまで繰り返す
+            while (true) {
+                const children = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+                    reader.readEntries(resolve, reject);
+                });
+                if (children.length === 0) break;
+                for (const child of children) {
+                    await this.collectEntryFiles(child, files);
+                }
+            }
+        }
+    }
+
+    // ファイル削除
+    removeFile(index: number): void {
+        if (index >= 0 && index < this.selectedFiles.length) {
+            const removedFile = this.selectedFiles[index];
+            console.log(`🗑️ ファイルを削除: ${removedFile.name}`);
+            this.selectedFiles.splice(index, 1);
+            this.relativePaths.delete(removedFile);
+            this.displaySelectedFiles();
+            this.updateSendButton();
+        }
+    }
+
+    // 完了ファイルに移動
+    private moveToCompleted(file: File): void {
+        this.completedFiles.push({
+            name: file.name,
+            size: file.size,
+            relativePath: this.getRelativePath(file)
+        });
+        this.relativePaths.delete(file);
+        this.displayCompletedFiles();
+    }
+
+    // ファイル一覧の1行（ファイル名は送信元の環境に依存するためtextContentで表示する）
+    private createFileItem(name: string, size: number): HTMLElement {
+        const fileItem = document.createElement('div');
+        fileItem.className = 'file-item';
+        fileItem.innerHTML = `
+            <div class="file-info">
+                <span class="file-name"></span>
+                <span class="file-size"></span>
+            </div>
+        `;
+        fileItem.querySelector('.file-name')!.textContent = name;
+        fileItem.querySelector('.file-size')!.textContent = this.formatFileSize(size);
+        return fileItem;
+    }
+
+    // 選択ファイル表示
+    private displaySelectedFiles(): void {
+        const list = this.find('.selected-files-list');
+        const container = this.find('.selected-files-container');
+        if (!list || !container) return;
+
+        list.innerHTML = '';
+        this.selectedFiles.forEach((file, index) => {
+            const fileItem = this.createFileItem(this.getRelativePath(file), file.size);
+            const actions = document.createElement('div');
+            actions.className = 'file-actions';
+            const removeBtn = document.createElement('button');
+            removeBtn.className = 'remove-file-btn';
+            removeBtn.textContent = '✕';
+            removeBtn.disabled = this.sending;
+            removeBtn.addEventListener('click', () => this.removeFile(index));
+            actions.appendChild(removeBtn);
+            fileItem.appendChild(actions);
+            list.appendChild(fileItem);
+        });
+
+        container.style.display = this.selectedFiles.length > 0 ? 'block' : 'none';
+    }
+
+    // 完了ファイル表示
+    private displayCompletedFiles(): void {
+        const list = this.find('.completed-files-list');
+        const container = this.find('.completed-files-container');
+        if (!list || !container) return;
+
+        list.innerHTML = '';
+        this.completedFiles.forEach(file => {
+            const fileItem = this.createFileItem(file.relativePath || file.name, file.size);
+            const status = document.createElement('div');
+            status.className = 'file-status';
+            status.innerHTML = '<span class="status-indicator completed">✅ 送信完了</span>';
+            fileItem.appendChild(status);
+            list.appendChild(fileItem);
+        });
+
+        container.style.display = this.completedFiles.length > 0 ? 'block' : 'none';
+    }
+
+    // 完了ファイルをクリア
+    clearCompletedFiles(): void {
+        this.completedFiles = [];
+        this.displayCompletedFiles();
+        console.log('🗑️ 送信完了ファイルリストをクリアしました');
+    }
+
+    // 確認コードの照合が済んでいないため送れない（照合の要否は接続ごとの設定）
+    private isSasConfirmationPending(): boolean {
+        return this.webrtc.requireSasConfirmation && !this.webrtc.sasConfirmed;
+    }
+
+    // 送信ボタン状態更新
+    updateSendButton(): void {
+        const sendBtn = this.find<HTMLButtonElement>('.send-btn');
+        if (!sendBtn) return;
+
+        const canSend = this.selectedFiles.length > 0 &&
+                        !this.sending &&
+                        !this.webrtc.isTransferring && // 一斉送信などで送信中
+                        !!this.webrtc.pc &&
+                        (this.webrtc.pc.connectionState === 'connected' || this.webrtc.pc.connectionState === 'connecting') &&
+                        !!this.webrtc.dataChannel &&
+                        this.webrtc.dataChannel.readyState === 'open' &&
+                        !this.isSasConfirmationPending();
+
+        sendBtn.disabled = !canSend;
+    }
+
+    // 確認コード表示（新しい接続ごとに照合し直す）
+    displaySas(sas: string): void {
+        const sasPanel = this.find('.sas-panel');
+        const sasCode = this.find('.sas-code');
+        const sasConfirmBtn = this.find<HTMLButtonElement>('.sas-confirm-btn');
+
+        if (sasCode) {
+            sasCode.textContent = sas;
+            sasCode.classList.remove('confirmed');
+        }
+        if (sasConfirmBtn) {
+            sasConfirmBtn.disabled = false;
+            sasConfirmBtn.textContent = '✅ 一致を確認';
+        }
+        if (sasPanel) sasPanel.style.display = 'block';
+        this.updateSendButton();
+    }
+
+    // 確認コードの一致を記録
+    private confirmSas(): void {
+        if (!this.webrtc.sasCode) return;
+
+        const sasCode = this.find('.sas-code');
+        const sasConfirmBtn = this.find<HTMLButtonElement>('.sas-confirm-btn');
+
+        this.webrtc.confirmSas();
+        if (sasCode) sasCode.classList.add('confirmed');
+        if (sasConfirmBtn) {
+            sasConfirmBtn.disabled = true;
+            sasConfirmBtn.textContent = '✅ 照合済み';
+        }
+        this.updateSendButton();
+    }
+
+    // 詳細設定を適用（入力欄はページ共通のIDで、送信の直前に読む）
+    applySettings(): void {
+        const concurrentSends = document.getElementById('concurrentSends') as HTMLInputElement;
+        const bufferThreshold = document.getElementById('bufferThreshold') as HTMLInputElement;
+        const chunkSizeKB = document.getElementById('chunkSizeKB') as HTMLSelectElement;
+        const adaptiveControl = document.getElementById('adaptiveControl') as HTMLInputElement;
+        const compressionMode = document.getElementById('compressionMode') as HTMLSelectElement;
+
+        if (concurrentSends) {
+            this.webrtc.maxConcurrentSends = parseInt(concurrentSends.value);
+        }
+        if (bufferThreshold) {
+            this.webrtc.BUFFER_THRESHOLD = parseInt(bufferThreshold.value) * 1024 * 1024;
+        }
+        if (chunkSizeKB) {
+            this.webrtc.adaptiveChunkSize = parseInt(chunkSizeKB.value) * 1024;
+        }
+        if (adaptiveControl) {
+            // 有効時は上の値を初期値として転送中に調整される
+            this.webrtc.adaptiveEnabled = adaptiveControl.checked;
+        }
+        if (compressionMode) {
+            this.webrtc.compressionMode = compressionMode.value as ChunkCompressionMode;
+        }
+    }
+
+    // ファイル送信（相手からの受信と同時に行える）
+    async sendFiles(): Promise<void> {
+        if (this.selectedFiles.length === 0 || this.sending) return;
+        if (this.isSasConfirmationPending()) {
+            this.options.onError(`確認コードが${this.options.sendTargetLabel}の画面と一致することを確認してから送信してください`);
+            return;
+        }
+
+        const sendBtn = this.find<HTMLButtonElement>('.send-btn');
+        const progressContainer = this.find('.send-progress');
+        if (!sendBtn || !progressContainer) return;
+
+        this.sending = true;
+        sendBtn.disabled = true;
+        sendBtn.textContent = '🚀 V2送信中...';
+        progressContainer.style.display = 'block';
+
+        this.applySettings();
+
+        // 送信するファイル一覧を先に相手へ通知
+        const batchFiles = [...this.selectedFiles];
+        const batchPaths = batchFiles.map(file => this.getRelativePath(file));
+        let batchId: string | null = null;
+
+        try {
+            const batch = await this.webrtc.sendBatchStart(batchFiles, batchPaths);
+            batchId = batch.batchId;
+
+            for (let i = 0; i < batchFiles.length; i++) {
+                const file = batchFiles[i];
+                this.speedSamples.send = { time: Date.now(), bytes: 0 };
+
+                const totalFiles = this.selectedFiles.length + this.completedFiles.length;
+                this.options.onStatus('sending', `🚀 ${batchPaths[i]} をV2転送中... (${this.completedFiles.length + 1}/${totalFiles})`);
+
+                // 相手の保存完了（file-received）まで待ってから次へ進む
+                await this.webrtc.sendFile(file, batch.files[i].fileId, batchPaths[i]);
+
+                // 送信完了後、選択リストから削除して完了リストに移動
+                this.moveToCompleted(file);
+                const index = this.selectedFiles.indexOf(file);
+                if (index >= 0) this.selectedFiles.splice(index, 1);
+                this.displaySelectedFiles();
+
+                this.options.onStatus('completed', `✅ ${file.name} V2転送完了！`);
+            }
+        } catch (error: unknown) {
+            console.error('ファイル送信エラー:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.options.onError('V2ファイル送信エラー: ' + errorMessage);
+        } finally {
+            if (batchId) {
+                await this.webrtc.sendBatchEnd(batchId).catch(error => {
+                    console.warn('⚠️ batch-end送信エラー（無視）:', error);
+                });
+            }
+
+            this.sending = false;
+            sendBtn.textContent = '🚀 高速送信開始';
+            this.displaySelectedFiles();
+            this.updateSendButton();
+
+            // すべてのファイル送信完了
+            if (this.selectedFiles.length === 0 && this.completedFiles.length > 0) {
+                this.options.onStatus('all-completed', `🎉 全${this.completedFiles.length}ファイルの送信が完了しました！`);
+            }
+        }
+    }
+
+    // 受信中のファイル情報
+    showReceivingFile(filename: string, filesize: number): void {
+        const container = this.find('.receive-progress');
+        const fileInfo = this.find('.receive-progress .file-info');
+        const fileName = this.find('.receiving-file-name');
+        const fileSize = this.find('.receiving-file-size');
+
+        this.speedSamples.receive = { time: Date.now(), bytes: 0 };
+        if (container) container.style.display = 'block';
+        if (fileInfo) fileInfo.style.display = 'block';
+        if (fileName) fileName.textContent = `📄 ${filename}`;
+        if (fileSize) fileSize.textContent = `📏 ${this.formatFileSize(filesize)}`;
+    }
+
+    // 進捗更新
+    updateProgress(progress: number, direction: TransferDirection): void {
+        const container = this.find(`.${direction}-progress`);
+        if (!container) return;
+
+        const progressFill = container.querySelector('.progress-fill') as HTMLElement | null;
+        const progressText = container.querySelector('.progress-text') as HTMLElement | null;
+
+        container.style.display = 'block';
+        if (progressFill) progressFill.style.width = `${progress}%`;
+        if (progressText) progressText.textContent = `${progress.toFixed(1)}%`;
+    }
+
+    // 詳細統計更新
+    updateStats(stats: TransferStats, direction: TransferDirection): void {
+        const container = this.find(`.${direction}-progress`);
+        if (!container) return;
+
+        const stat = (name: string) => container.querySelector(`.${name}`) as HTMLElement | null;
+        const mainChunksCompleted = stat('main-chunks-completed');
+        const subChunksCompleted = stat('sub-chunks-completed');
+        const transferSpeed = stat('transfer-speed');
+        const failedChunks = stat('failed-chunks');
+        const adaptiveInfo = stat('adaptive-info');
+        const compressionRatio = stat('compression-ratio');
+
+        if (mainChunksCompleted) {
+            mainChunksCompleted.textContent = `${stats.mainChunksCompleted || 0}/${stats.totalMainChunks || 0}`;
+        }
+        if (subChunksCompleted) {
+            subChunksCompleted.textContent = `${stats.chunksCompleted || 0}/${stats.totalChunks || 0}`;
+        }
+        if (transferSpeed) {
+            transferSpeed.textContent = this.calculateSpeed(direction, stats.progress.bytesCompleted) + ' MB/s';
+        }
+        if (failedChunks) {
+            failedChunks.textContent = stats.failedChunks.toString();
+        }
+        if (adaptiveInfo) {
+            const adaptive = stats.adaptive;
+            if (adaptive) {
+                const rtt = adaptive.rtt !== null ? `${Math.round(adaptive.rtt)}ms` : '-';
+                const bandwidth = adaptive.availableBitrate !== null ? `${(adaptive.availableBitrate / 1e6).toFixed(0)}Mbps` : '-';
+                adaptiveInfo.textContent = `RTT ${rtt} / 帯域 ${bandwidth} / ${adaptive.subChunkSize / 1024}KB×${adaptive.maxConcurrentSends} / バッファ ${(adaptive.bufferThreshold / (1024 * 1024)).toFixed(0)}MB`;
+                adaptiveInfo.title = adaptive.reason;
+            } else {
+                adaptiveInfo.textContent = '-';
+                adaptiveInfo.title = '';
+            }
+        }
+        if (compressionRatio) {
+            // 圧縮後のサイズ比（圧縮していなければ -）
+            compressionRatio.textContent = stats.compression
+                ? `${(stats.compression.ratio * 100).toFixed(0)}%`
+                : '-';
+        }
+    }
+
+    // 転送速度計算（前回の統計更新からの差分）
+    private calculateSpeed(direction: TransferDirection, bytesCompleted: number): string {
+        const sample = this.speedSamples[direction];
+        const now = Date.now();
+        const timeDiff = (now - sample.time) / 1000; // 秒
+        if (timeDiff <= 0) return '0';
+
+        const speedMBps = (Math.max(0, bytesCompleted - sample.bytes) / (1024 * 1024)) / timeDiff;
+        this.speedSamples[direction] = { time: now, bytes: bytesCompleted };
+        return speedMBps.toFixed(1);
+    }
+
+    // ファイルサイズ整形
+    private formatFileSize(bytes: number): string {
+        if (bytes === 0) return '0 Bytes';
+        const k = 1024;
+        const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+        const i = Math.floor(Math.log(bytes) / Math.log(k));
+        return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+    }
+}
+
+// グローバルエクスポート
+(window as any).TransferPanel = TransferPanel;
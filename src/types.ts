@@ -4,9 +4,148 @@
  */
 
 export interface FileInfo {
+    fileId?: string;
     name: string;
     size: number;
-    data: ArrayBuffer;
+    relativePath?: string; // フォルダ送信時のフォルダ内パス（例: project/assets/logo.png）
+    data?: ArrayBuffer;
+    blob?: Blob;          // 受信結果（OPFS/保存先フォルダ上のFile、またはメモリ上のBlob）
+    savedToDisk?: boolean; // 保存先フォルダへ書き込み済み（ダウンロード不要）
+    release?: () => Promise<void>; // ZIPへの書き出し・ダウンロード後に一時領域（OPFS）を解放
+}
+
+export type TransferMode = 'reliable' | 'unordered'; // データ用チャネルの配送方式
+export type TransferDirection = 'send' | 'receive'; // 同じ接続で送受信を同時に行うため進捗は方向ごとに通知
+
+// hello で交換する対応機能
+export interface PeerCapabilities {
+    maxMessageSize: number;        // pc.sctp.maxMessageSize（0 = 不明・制限なし）
+    compression: string[];         // 対応する圧縮形式（CompressionStream）
+    encryption: string[];          // 対応する暗号方式
+    hashAlgorithms: string[];      // チャンク検証に使えるハッシュ
+    transferModes: TransferMode[]; // データ用チャネルの配送方式
+    resume: boolean;               // 切断後の再開に対応
+}
+
+// 双方が対応する機能（以降のチャンクサイズ・モード選択はこの範囲で行う）
+export interface NegotiatedCapabilities {
+    maxMessageSize: number;
+    compression: string[];
+    encryption: string[];
+    hashAlgorithm: string;
+    transferModes: TransferMode[];
+    resume: boolean;
+}
+
+// スウォーム配布での担当（送信元はまず担当分のサブチャンクだけを送り、残りは受信者同士で交換する）
+export interface SwarmShare {
+    swarmId: string;
+    share: number;        // 担当番号（globalIndex % shareCount === share のサブチャンクを担当）
+    shareCount: number;
+    subChunkSize: number; // 受信者間でインデックスを揃えるため全員同じサイズにする
+    pieceKey: string;     // 受信者間で交換するピースの暗号鍵（Base64、file-start-v2ではE2Eの鍵で暗号化して送る）
+}
+
+export type FileTransferStatus = 'queued' | 'receiving' | 'completed' | 'failed';
+
+export interface BatchFileEntry {
+    fileId: string;
+    name: string;
+    size: number;
+    relativePath: string;
+}
+
+export interface FileSink {
+    readonly kind: 'memory' | 'opfs' | 'directory';
+    write(offset: number, data: ArrayBuffer): Promise<void>;
+    close(): Promise<Blob>;
+    abort(): Promise<void>;
+    release(): Promise<void>; // close後のBlobを使い終えたら一時領域を削除（保存先フォルダ・メモリでは何もしない）
+}
+
+// エントリ名を列挙できるディレクトリ（lib.dom に非同期イテレーターの宣言がないため必要な分だけ補う）
+export interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+    keys(): AsyncIterableIterator<string>;
+}
+
+export type ZipCompression = 'store' | 'deflate';
+
+// サブチャンク本体のエンドツーエンド暗号化（e2e-crypto.ts）
+export interface E2ESession {
+    readonly publicKey: string;
+    readonly ready: boolean;
+    readonly transcript: string | null;
+    createCommitment(): Promise<string>;
+    verifyCommitment(publicKey: string, commitment: string): Promise<boolean>;
+    establish(peerPublicKey: string, roomCode: string, isHost: boolean): Promise<void>;
+    createConfirmation(): Promise<string>;
+    verifyConfirmation(confirmation: string): Promise<boolean>;
+    macChecksum(checksum: string): Promise<string>;
+    encrypt(data: ArrayBuffer, additionalData: ArrayBuffer): Promise<ArrayBuffer>;   // 先頭に送信カウンターを付ける
+    decrypt(data: ArrayBuffer, additionalData: ArrayBuffer): Promise<ArrayBuffer>;
+}
+
+export type ChunkCompressionMode = 'off' | 'auto' | 'always'; // auto: 縮んだチャンクだけ圧縮して送る
+export type ChunkCompressionFormat = 'gzip' | 'deflate';
+
+export interface CompressionStats {
+    originalBytes: number; // 圧縮前のサブチャンク合計
+    wireBytes: number;     // 実際に送受信したペイロード合計
+    ratio: number;         // wireBytes / originalBytes（1未満なら削減）
+}
+
+export interface ZipArchive {
+    readonly fileCount: number;
+    addFile(path: string, blob: Blob): Promise<void>;
+    finish(): Promise<Blob>;
+    abort(): Promise<void>;
+    release(): Promise<void>;
+}
+
+// 制御・データ共通のバイナリフレーム（レイアウトは wire-format.ts を参照）
+export interface WireFrameHeader {
+    type: number;
+    flags?: number;
+    fileNumber?: number;
+    chunkIndex?: number;
+    offset?: number;
+}
+
+export interface WireFrame extends Required<WireFrameHeader> {
+    payload: ArrayBuffer;
+}
+
+export interface WireFormat {
+    readonly VERSION: number;
+    readonly HEADER_SIZE: number;
+    readonly FrameType: { readonly CONTROL: 1; readonly DATA: 2 };
+    readonly FRAME_FLAG_RETRANSMIT: number;
+    readonly FRAME_FLAG_GZIP: number;
+    readonly FRAME_FLAG_DEFLATE: number;
+    readonly FRAME_FLAG_ENCRYPTED: number;
+    encodeFrame(header: WireFrameHeader, payload: ArrayBuffer | Uint8Array): ArrayBuffer;
+    decodeFrame(buffer: ArrayBuffer): WireFrame;
+}
+
+export interface AdaptiveSettings {
+    subChunkSize: number;
+    maxConcurrentSends: number;
+    bufferThreshold: number;
+}
+
+// 適応制御の判断結果（なぜスループットが変わったかを表示するため統計に含める）
+export interface AdaptiveDecision extends AdaptiveSettings {
+    timestamp: number;
+    rtt: number | null;              // ms
+    sendRate: number;                // 実測送信レート（B/s）
+    availableBitrate: number | null; // 推定利用可能帯域（bps）
+    bufferedAmount: number;
+    reason: string;
+}
+
+export interface AdaptiveController {
+    maxMessageSize: number; // 交渉済みの最大メッセージサイズ（0 = 制限なし）
+    sample(current: AdaptiveSettings, bufferedAmount: number): Promise<AdaptiveDecision>;
 }
 
 export interface TransferStats {
@@ -20,14 +159,53 @@ export interface TransferStats {
     mainChunksCompleted: number;
     totalMainChunks: number;
     failedChunks: number;
+    adaptive?: AdaptiveDecision | null;
+    compression?: CompressionStats | null;
+}
+
+// メインチャンク単位の受信ビットマップ（bit j = サブチャンクj、LSBファースト、Base64）
+export interface ChunkBitmapEntry {
+    index: number;
+    bitmap: string;
 }
 
 export type ControlMessage = {
+    type: 'hello'; // DataChannel接続時のプロトコル確認・対応機能の交換
+    protocolVersion: number;
+    capabilities: PeerCapabilities;
+} | {
+    type: 'key-commit'; // ホストのECDH公開鍵のコミットメント（公開鍵は参加者の公開鍵を受け取ってから送る）
+    commitment: string;
+} | {
+    type: 'key-exchange'; // ECDH公開鍵
+    publicKey: string;
+} | {
+    type: 'key-confirm'; // 導出した鍵の確認値（HMAC）
+    confirmation: string;
+} | {
+    type: 'batch-start';
+    batchId: string;
+    files: BatchFileEntry[];
+} | {
+    type: 'batch-end';
+    batchId: string;
+} | {
     type: 'file-start-v2';
+    fileId: string;
+    fileNumber: number; // データフレームのヘッダーに入るファイル番号
     filename: string;
     filesize: number;
+    relativePath: string;
     totalMainChunks: number;
     totalSubChunks: number;
+    mainChunkSize: number;
+    subChunkSize: number;
+    swarm?: SwarmShare;   // スウォーム配布中のファイル
+} | {
+    type: 'swarm-checksums'; // スウォーム配布で他の受信者から届くサブチャンクを検証するためのchecksum（メインチャンク単位）
+    fileId: string;
+    mainIndex: number;
+    checksums: string[];
 } | {
     type: 'chunk-metadata'; // 天才的な軽量メタデータ
     chunkId: string;
@@ -35,17 +213,28 @@ export type ControlMessage = {
     checksum: string;
     index: number;
 } | {
-    type: 'chunk-ack';
-    chunkId: string;
-    success: boolean;
-} | {
-    type: 'chunk-nack'; // 天才的な再送要求
-    missingIndexes: number[];
+    type: 'chunk-bitmap'; // 受信済みサブチャンクの選択的ACK
+    fileId: string;
+    mainChunks: ChunkBitmapEntry[];
+    resume?: boolean;     // 再開時の保持状況報告（0のビットは未受信として再送対象に戻す）
+    resumeDone?: boolean; // 再開報告の最終メッセージ
 } | {
     type: 'transfer-complete';
+    fileId: string;
+    fileDigest: string;
+} | {
+    type: 'file-received'; // 受信側の最終判定
+    fileId: string;
+    success: boolean;
+    reason?: string;
 } | {
     type: 'retry-request';
     chunkId: string;
+    lost?: boolean; // 受信側で保持しきれず破棄した（再送上限には数えない）
+} | {
+    type: 'transfer-failed';
+    fileId: string;
+    reason: string;
 };
 
 export interface MainChunk {
@@ -63,12 +252,37 @@ export interface SubChunk {
     id: string;
     mainChunkId: string;
     index: number;
+    globalIndex: number; // ファイル全体での通し番号（ヘッダーに格納）
     start: number;
     end: number;
     size: number;
-    status: 'pending' | 'sending' | 'completed' | 'failed';
+    status: 'pending' | 'sending' | 'sent' | 'acked' | 'failed'; // sent: 送信済み・ACK待ち
     checksum: string | null;
     retryCount: number;
+    sentAt: number;  // 最後に送信した時刻（ACKタイムアウト判定用）
+    sentSeq: number; // 最後に送信したときの送信順（ギャップ検出用）
+}
+
+// サブチャンクの読み込み元（一斉送信時は受信者間で共有する）
+export interface ChunkReader {
+    read(start: number, end: number): Promise<ArrayBuffer>;
+    checksum?(start: number, end: number, data?: ArrayBuffer): Promise<string>; // 受信者間で共有するchecksum（dataがあれば読み込まずに計算）
+}
+
+export interface BroadcastPeerState {
+    peerId: string;
+    status: 'sending' | 'completed' | 'failed';
+    error: string | null;
+}
+
+// 1つのファイルを複数の受信者へ送るときの共有読み込み（chunk-manager.ts）
+export interface BroadcastChunkSource {
+    readonly file: File;
+    readonly diskBytesRead: number;
+    createReader(peerId: string): ChunkReader;
+    finish(peerId: string, success: boolean, error?: string | null): void;
+    getPeers(): BroadcastPeerState[];
+    isFinished(): boolean;
 }
 
 export interface ChunkManager {
@@ -76,20 +290,37 @@ export interface ChunkManager {
     mainChunks: MainChunk[];
     completedSubChunks: Set<string>;
     failedSubChunks: Set<string>;
+    inFlightSubChunks: Map<string, SubChunk>;
     startTime: number;
+    sendSeq: number;
+    lastAckedSeq: number;
+    lastAckAt: number;
+    chunkReader: ChunkReader | null;
+    swarmShare: SwarmShare | null;
     MAIN_CHUNK_SIZE: number;
     SUB_CHUNK_SIZE: number;
+    MAX_RETRIES: number;
 
     startTransfer(): void;
     getNextMainChunk(): MainChunk | null;
     getSubChunks(mainChunkId: string): SubChunk[];
     getNextSubChunk(mainChunkId: string): SubChunk | null;
-    markSubChunkCompleted(subChunkId: string, checksum: string): void;
+    isInSwarmShare(subChunk: SubChunk): boolean;
+    markSwarmReached(mainIndex: number): void;
+    markSubChunkSent(subChunkId: string, checksum: string): void;
+    markSubChunkAcked(subChunkId: string): void;
+    applyAckBitmap(mainChunkIndex: number, bitmap: Uint8Array, resume?: boolean): number;
+    markSubChunkLost(subChunkId: string): void;
+    getAckGaps(grace: number, idleTimeout: number): SubChunk[];
     markSubChunkFailed(subChunkId: string): void;
+    getUnackedBytes(): number;
+    getTimedOutSubChunks(timeout: number): SubChunk[];
+    hasFailedSubChunks(): boolean;
     updateMainChunkStatus(): void;
     getProgress(): {
         percentage: number;
         bytesCompleted: number;
+        bytesInFlight: number;
         totalBytes: number;
         chunksCompleted: number;
         totalChunks: number;
@@ -102,6 +333,8 @@ export interface ChunkManager {
     findSubChunk(subChunkId: string): SubChunk | null;
     getChunkData(chunk: SubChunk): Promise<ArrayBuffer>;
     calculateChecksum(buffer: ArrayBuffer): Promise<string>;
+    getSubChunkChecksum(subChunk: SubChunk, data?: ArrayBuffer): Promise<string>;
+    calculateFileDigest(): Promise<string>;
     formatFileSize(bytes: number): string;
     getStats(): {
         progress: {
@@ -117,38 +350,135 @@ export interface ChunkManager {
     };
 }
 
+// スウォーム配布で受信中のファイル（受信者同士の交換に使う）
+export interface SwarmReceiveState {
+    swarmKey: string;            // swarmId とサブチャンクサイズの組（同じキーの受信者同士だけで交換する）
+    totalSubChunks: number;
+    completedChunks: Set<number>;
+    checksums: Map<number, string>; // 送信元が公開したchecksum（これがあるサブチャンクだけ取り寄せる）
+    pieceKey: CryptoKey;            // 受信者間で交換するピースの暗号鍵
+}
+
+// 他の受信者から届いたサブチャンクの取り込み結果（invalidは送信元のchecksumと不一致）
+export type SwarmChunkResult = 'accepted' | 'skipped' | 'invalid';
+
+// 受信者同士のメッシュ接続（swarm.ts）
+export interface SwarmMesh {
+    readonly peerCount: number;
+    attach(webrtc: WebRTCManagerV2): void;
+    setPeers(selfId: number, peerIds: number[]): void;
+    addPeer(peerId: number): void;
+    handleSignal(from: number, signal: SwarmSignal): Promise<void>;
+    removePeer(peerId: number): void;
+}
+
+export type SwarmSignal =
+    | { join: string } // スウォーム配布の受信中に交換相手を募る（swarmKey）
+    | { description: RTCSessionDescriptionInit }
+    | { candidate: RTCIceCandidateInit };
+
+// 送受信パネル（transfer-panel.ts、client.html / server.html 共通）
+export interface TransferPanelOptions {
+    sendTargetLabel: string;                 // 確認コードを照合する相手（例: 受信側）
+    onStatus: (state: string, message: string) => void;
+    onError: (message: string) => void;
+}
+
+export interface TransferPanel {
+    setConnected(connected: boolean): void;
+    updateSendButton(): void;
+    applySettings(): void;
+    displaySas(sas: string): void;
+    showReceivingFile(filename: string, filesize: number): void;
+    updateProgress(progress: number, direction: TransferDirection): void;
+    updateStats(stats: TransferStats, direction: TransferDirection): void;
+}
+
 export interface WebRTCManagerV2 {
     pc: RTCPeerConnection | null;
     dataChannel: RTCDataChannel | null;
+    dataChannels: (RTCDataChannel | null)[];
+    dataChannelCount: number;
+    transferMode: TransferMode;
     chunkManager: any;
     receiveManager: any;
     isHost: boolean;
     maxConcurrentSends: number;
     BUFFER_THRESHOLD: number;
     adaptiveChunkSize: number;
+    adaptiveEnabled: boolean;
+    compressionMode: ChunkCompressionMode;
+    roomCode: string;
+    requireEncryption: boolean;
+    sasCode: string | null;
+    requireSasConfirmation: boolean; // 照合済みになるまでファイルを送らない
+    sasConfirmed: boolean;
+    isTransferring: boolean;
+    peerCapabilities: PeerCapabilities | null;
+    negotiated: NegotiatedCapabilities | null;
 
     onStatusChange: ((state: string, message: string) => void) | null;
-    onProgress: ((progress: number) => void) | null;
-    onStatsUpdate: ((stats: TransferStats) => void) | null;
+    onProgress: ((progress: number, direction: TransferDirection) => void) | null;
+    onStatsUpdate: ((stats: TransferStats, direction: TransferDirection) => void) | null;
     onFileReceived: ((fileInfo: FileInfo) => void) | null;
-    onFileReceiveStart: ((filename: string, filesize: number) => void) | null;
+    onFileFailed: ((fileInfo: FileInfo, reason: string) => void) | null;
+    onFileReceiveStart: ((filename: string, filesize: number, fileId: string) => void) | null;
+    onBatchStart: ((batchId: string, files: BatchFileEntry[]) => void) | null;
+    onBatchEnd: ((batchId: string) => void) | null;
     onConnected: (() => void) | null;
     onDisconnected: (() => void) | null;
+    onIceRestartNeeded: (() => void) | null;
+    onSasReady: ((sas: string) => void) | null;
+    onSwarmChunk: ((swarmKey: string, index: number, data: ArrayBuffer) => void) | null;
+    sinkFactory: ((filename: string, filesize: number, relativePath: string) => Promise<FileSink>) | null;
     sendToServer: ((data: ControlMessage | { type: string; candidate: RTCIceCandidate }) => void) | null;
 
     init(isHost: boolean): void;
-    createOffer(): Promise<RTCSessionDescriptionInit>;
+    setTransferMode(mode: TransferMode): void;
+    createOffer(iceRestart?: boolean): Promise<RTCSessionDescriptionInit>;
     createAnswer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit>;
     setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void>;
     addIceCandidate(candidate: RTCIceCandidateInit): Promise<void>;
-    sendFile(file: File): Promise<void>;
+    sendBatchStart(files: File[], relativePaths?: string[]): Promise<{ batchId: string; files: BatchFileEntry[] }>;
+    sendBatchEnd(batchId: string): Promise<void>;
+    sendFile(file: File, fileId?: string, relativePath?: string, chunkReader?: ChunkReader | null, swarm?: SwarmShare | null): Promise<void>;
+    fitSubChunkSize(requested: number): number;
+    getSwarmReceive(): SwarmReceiveState | null;
+    acceptSwarmChunk(swarmKey: string, index: number, data: ArrayBuffer): Promise<SwarmChunkResult>;
+    confirmSas(): void;
+    destroy(): void;
 }
 
 declare global {
     interface Window {
         WebRTCManagerV2: any;
         ChunkManager: {
-            new(file: File): ChunkManager;
+            new(file: File, subChunkSize?: number): ChunkManager;
+        };
+        BroadcastChunkSource: {
+            new(file: File): BroadcastChunkSource;
+        };
+        AdaptiveController: {
+            new(pc: RTCPeerConnection): AdaptiveController;
+        };
+        createFileSink: (filename: string, filesize: number, directory?: FileSystemDirectoryHandle | null, relativePath?: string) => Promise<FileSink>;
+        splitRelativePath: (relativePath: string) => string[];
+        releaseAfterDownload: (fileData: FileInfo) => void;
+        WireFormat: WireFormat;
+        E2ESession: {
+            create(): Promise<E2ESession>;
+        };
+        compressChunk: (data: ArrayBuffer, format: ChunkCompressionFormat) => Promise<ArrayBuffer>;
+        decompressChunk: (data: ArrayBuffer, format: ChunkCompressionFormat, maxSize: number) => Promise<ArrayBuffer>;
+        ZipArchive: {
+            new(sink: FileSink, compression?: ZipCompression): ZipArchive;
+        };
+        SwarmMesh: {
+            new(sendSignal: (to: number, signal: SwarmSignal) => void): SwarmMesh;
+        };
+        TransferPanel: {
+            new(root: HTMLElement, webrtc: WebRTCManagerV2, options: TransferPanelOptions): TransferPanel;
         };
+        showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
     }
 }
\ No newline at end of file
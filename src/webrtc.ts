@@ -6,40 +6,236 @@ interface ChunkMetadataMessage {
     index: number;
 }
 
+interface BatchFileEntry {
+    fileId: string;
+    name: string;
+    size: number;
+    relativePath: string;
+}
+
+interface BatchStartMessage {
+    type: 'batch-start';
+    batchId: string;
+    files: BatchFileEntry[];
+}
+
+interface BatchEndMessage {
+    type: 'batch-end';
+    batchId: string;
+}
+
+interface HelloMessage {
+    type: 'hello';
+    protocolVersion: number;
+    capabilities: PeerCapabilities;
+}
+
+interface KeyCommitMessage {
+    type: 'key-commit';
+    commitment: string;
+}
+
+interface KeyExchangeMessage {
+    type: 'key-exchange';
+    publicKey: string;
+}
+
+interface KeyConfirmMessage {
+    type: 'key-confirm';
+    confirmation: string;
+}
+
 interface FileStartV2Message {
     type: 'file-start-v2';
+    fileId: string;
+    fileNumber: number;
     filename: string;
     filesize: number;
+    relativePath: string;
     totalMainChunks: number;
     totalSubChunks: number;
+    mainChunkSize: number;
+    subChunkSize: number;
+    swarm?: SwarmShare; // スウォーム配布時の担当（受信者同士で交換する前提で担当分を優先して送る）
 }
 
-interface ChunkAckMessage {
-    type: 'chunk-ack';
-    chunkId: string;
-    success: boolean;
+// スウォーム配布での送信担当（globalIndex % shareCount === share のサブチャンクを優先して送る）
+interface SwarmShare {
+    swarmId: string;
+    share: number;
+    shareCount: number;
+    subChunkSize: number;
+    pieceKey: string;
+}
+
+// スウォーム交換用の受信状況
+interface SwarmReceiveState {
+    swarmKey: string;
+    totalSubChunks: number;
+    completedChunks: Set<number>;
+    checksums: Map<number, string>;
+    pieceKey: CryptoKey;
+}
+
+type SwarmChunkResult = 'accepted' | 'skipped' | 'invalid';
+
+// スウォーム配布で送信側が公開するサブチャンクのchecksum（担当外も含めメインチャンク単位）
+interface SwarmChecksumsMessage {
+    type: 'swarm-checksums';
+    fileId: string;
+    mainIndex: number;
+    checksums: string[];
 }
 
 interface TransferCompleteMessage {
     type: 'transfer-complete';
+    fileId: string;
+    fileDigest: string;
+}
+
+interface FileReceivedMessage {
+    type: 'file-received';
+    fileId: string;
+    success: boolean;
+    reason?: string;
 }
 
 interface RetryRequestMessage {
     type: 'retry-request';
     chunkId: string;
+    lost?: boolean; // 受信側で保持しきれず破棄した（再送上限には数えない）
+}
+
+// メインチャンク単位の受信ビットマップ（bit j = サブチャンクj、LSBファースト、Base64）
+interface ChunkBitmapEntry {
+    index: number;
+    bitmap: string;
+}
+
+interface ChunkBitmapMessage {
+    type: 'chunk-bitmap';
+    fileId: string;
+    mainChunks: ChunkBitmapEntry[];
+    resume?: boolean;     // 再開時の保持状況報告（0のビットは未受信として再送対象に戻す）
+    resumeDone?: boolean; // 再開報告の最終メッセージ
 }
 
-interface ChunkNackMessage {
-    type: 'chunk-nack';
-    missingIndexes: number[];
+interface TransferFailedMessage {
+    type: 'transfer-failed';
+    fileId: string;
+    reason: string;
 }
 
-type ControlMessage = FileStartV2Message | ChunkMetadataMessage | ChunkAckMessage | ChunkNackMessage | TransferCompleteMessage | RetryRequestMessage;
+type ControlMessage = HelloMessage | KeyCommitMessage | KeyExchangeMessage | KeyConfirmMessage | BatchStartMessage | BatchEndMessage | FileStartV2Message | SwarmChecksumsMessage | ChunkMetadataMessage | ChunkBitmapMessage | TransferCompleteMessage | FileReceivedMessage | RetryRequestMessage | TransferFailedMessage;
 
 interface FileInfo {
+    fileId?: string;
     name: string;
     size: number;
-    data: ArrayBuffer;
+    relativePath?: string;
+    data?: ArrayBuffer;
+    blob?: Blob;
+    savedToDisk?: boolean;
+    release?: () => Promise<void>;
+}
+
+interface FileSink {
+    readonly kind: 'memory' | 'opfs' | 'directory';
+    write(offset: number, data: ArrayBuffer): Promise<void>;
+    close(): Promise<Blob>;
+    abort(): Promise<void>;
+    release(): Promise<void>;
+}
+
+type TransferMode = 'reliable' | 'unordered';
+type TransferDirection = 'send' | 'receive';
+type ChunkCompressionMode = 'off' | 'auto' | 'always';
+type ChunkCompressionFormat = 'gzip' | 'deflate';
+
+interface CompressionStats {
+    originalBytes: number;
+    wireBytes: number;
+    ratio: number;
+}
+
+interface PeerCapabilities {
+    maxMessageSize: number;        // pc.sctp.maxMessageSize（0 = 不明・制限なし）
+    compression: string[];         // 対応する圧縮形式（CompressionStream）
+    encryption: string[];          // 対応する暗号方式
+    hashAlgorithms: string[];      // チャンク検証に使えるハッシュ
+    transferModes: TransferMode[]; // データ用チャネルの配送方式
+    resume: boolean;               // 切断後の再開に対応
+}
+
+interface NegotiatedCapabilities {
+    maxMessageSize: number;
+    compression: string[];
+    encryption: string[];
+    hashAlgorithm: string;
+    transferModes: TransferMode[];
+    resume: boolean;
+}
+
+interface E2ESession {
+    readonly publicKey: string;
+    readonly ready: boolean;
+    readonly transcript: string | null;
+    createCommitment(): Promise<string>;
+    verifyCommitment(publicKey: string, commitment: string): Promise<boolean>;
+    establish(peerPublicKey: string, roomCode: string, isHost: boolean): Promise<void>;
+    createConfirmation(): Promise<string>;
+    verifyConfirmation(confirmation: string): Promise<boolean>;
+    macChecksum(checksum: string): Promise<string>;
+    encrypt(data: ArrayBuffer, additionalData: ArrayBuffer): Promise<ArrayBuffer>;
+    decrypt(data: ArrayBuffer, additionalData: ArrayBuffer): Promise<ArrayBuffer>;
+}
+
+interface WireFrameHeader {
+    type: number;
+    flags?: number;
+    fileNumber?: number;
+    chunkIndex?: number;
+    offset?: number;
+}
+
+interface WireFrame extends Required<WireFrameHeader> {
+    payload: ArrayBuffer;
+}
+
+interface ExpectedChunk {
+    id: string;
+    mainChunkId: string;
+    index: number;
+    checksum: string;
+    received: boolean;
+}
+
+interface ReceiveManager {
+    fileId: string;
+    filename: string;
+    relativePath: string;
+    filesize: number;
+    expectedChunks: Map<number, ExpectedChunk>;
+    completedChunks: Set<number>; // 検証済みでシンクに書き込んだglobalIndex
+    totalReceived: number;
+    totalMainChunks: number;
+    totalSubChunks: number;
+    mainChunkSize: number;
+    subChunkSize: number;
+    verifiedChecksums: Map<number, string>; // globalIndex -> 受信データのchecksum
+    failedChecks: number;
+    completed: boolean;
+    result: FileReceivedMessage | null; // 送信側へ返した最終判定（再接続時に再送）
+    fileNumber: number;
+    orphanChunks: Map<number, WireFrame>; // メタデータより先に届いたデータフレーム（別チャネル経由のため）
+    subChunksPerMain: number;
+    originalBytes: number; // 受け取ったデータフレームの展開後サイズ合計
+    wireBytes: number;     // 受け取ったデータフレームのペイロード合計
+    dirtyMainChunks: Set<number>; // 前回のビットマップ送信以降に受信があったメインチャンク
+    sinkReady: Promise<FileSink>;
+    swarmKey: string | null; // スウォーム配布で他の受信者と同じファイルを識別するキー
+    swarmChecksums: Map<number, string>; // 送信側が公開したglobalIndex -> checksum（他の受信者から届いた分の検証用）
+    swarmPieceKey: CryptoKey | null;     // 受信者間で交換するピースの暗号鍵（取り出せた場合のみswarmKeyを設定する）
 }
 
 interface TransferStats {
@@ -53,6 +249,28 @@ interface TransferStats {
     mainChunksCompleted: number;
     totalMainChunks: number;
     failedChunks: number;
+    adaptive?: AdaptiveDecision | null;
+    compression?: CompressionStats | null;
+}
+
+interface AdaptiveSettings {
+    subChunkSize: number;
+    maxConcurrentSends: number;
+    bufferThreshold: number;
+}
+
+interface AdaptiveDecision extends AdaptiveSettings {
+    timestamp: number;
+    rtt: number | null;
+    sendRate: number;
+    availableBitrate: number | null;
+    bufferedAmount: number;
+    reason: string;
+}
+
+interface AdaptiveController {
+    maxMessageSize: number;
+    sample(current: AdaptiveSettings, bufferedAmount: number): Promise<AdaptiveDecision>;
 }
 
 interface MainChunk {
@@ -70,12 +288,21 @@ interface SubChunk {
     id: string;
     mainChunkId: string;
     index: number;
+    globalIndex: number;
     start: number;
     end: number;
     size: number;
-    status: 'pending' | 'sending' | 'completed' | 'failed';
+    status: 'pending' | 'sending' | 'sent' | 'acked' | 'failed'; // sent: 送信済み・ACK待ち
     checksum: string | null;
     retryCount: number;
+    sentAt: number;  // 最後に送信した時刻（ACKタイムアウト判定用）
+    sentSeq: number; // 最後に送信したときの送信順（ギャップ検出用）
+}
+
+// サブチャンクの読み込み元（一斉送信時は受信者間で共有する）
+interface ChunkReader {
+    read(start: number, end: number): Promise<ArrayBuffer>;
+    checksum?(start: number, end: number, data?: ArrayBuffer): Promise<string>; // 受信者間で共有するchecksum（dataがあれば読み込まずに計算）
 }
 
 interface ChunkManager {
@@ -83,17 +310,36 @@ interface ChunkManager {
     mainChunks: MainChunk[];
     completedSubChunks: Set<string>;
     failedSubChunks: Set<string>;
+    inFlightSubChunks: Map<string, SubChunk>;
     startTime: number;
+    sendSeq: number;
+    lastAckedSeq: number;
+    lastAckAt: number;
+    chunkReader: ChunkReader | null;
+    swarmShare: SwarmShare | null;
+    MAIN_CHUNK_SIZE: number;
+    SUB_CHUNK_SIZE: number;
+    MAX_RETRIES: number;
 
     getNextMainChunk(): MainChunk | null;
     getSubChunks(mainChunkId: string): SubChunk[];
     getNextSubChunk(mainChunkId: string): SubChunk | null;
-    markSubChunkCompleted(subChunkId: string, checksum: string): void;
+    isInSwarmShare(subChunk: SubChunk): boolean;
+    markSwarmReached(mainIndex: number): void;
+    markSubChunkSent(subChunkId: string, checksum: string): void;
+    markSubChunkAcked(subChunkId: string): void;
+    applyAckBitmap(mainChunkIndex: number, bitmap: Uint8Array, resume?: boolean): number;
+    markSubChunkLost(subChunkId: string): void;
+    getAckGaps(grace: number, idleTimeout: number): SubChunk[];
     markSubChunkFailed(subChunkId: string): void;
+    getUnackedBytes(): number;
+    getTimedOutSubChunks(timeout: number): SubChunk[];
+    hasFailedSubChunks(): boolean;
     updateMainChunkStatus(): void;
     getProgress(): {
         percentage: number;
         bytesCompleted: number;
+        bytesInFlight: number;
         totalBytes: number;
         chunksCompleted: number;
         totalChunks: number;
@@ -105,55 +351,110 @@ interface ChunkManager {
     findSubChunk(subChunkId: string): SubChunk | null;
     getChunkData(chunk: SubChunk): Promise<ArrayBuffer>;
     calculateChecksum(buffer: ArrayBuffer): Promise<string>;
+    getSubChunkChecksum(subChunk: SubChunk, data?: ArrayBuffer): Promise<string>;
+    calculateFileDigest(): Promise<string>;
     formatFileSize(bytes: number): string;
     getStats(): any;
     startTransfer(): void;
 }
 
 interface WebRTCManagerV2Callbacks {
-    onProgress?: ((progress: number) => void) | null;
+    onProgress?: ((progress: number, direction: TransferDirection) => void) | null;
     onStatusChange?: ((state: string, message: string) => void) | null;
     onFileReceived?: ((fileInfo: FileInfo) => void) | null;
-    onStatsUpdate?: ((stats: TransferStats) => void) | null;
+    onStatsUpdate?: ((stats: TransferStats, direction: TransferDirection) => void) | null;
     onConnected?: (() => void) | null;
     onDisconnected?: (() => void) | null;
 }
 
+// DataChannelのラベル（制御用1本 + データ用プール）
+const CONTROL_CHANNEL_LABEL = 'fileTransfer-v2';
+const DATA_CHANNEL_LABEL_PREFIX = 'fileTransfer-v2-data-';
+// ファイル開始前・メタデータ到着前に届いたバイナリの保持上限
+const MAX_EARLY_CHUNKS = 64;
+// 最大メッセージサイズに合わせて縮める場合の下限
+const MIN_SUB_CHUNK_SIZE = 16 * 1024;
+
+/**
+ * ビットマップをBase64に変換（制御メッセージはJSONのため）
+ */
+function encodeBitmap(bitmap: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bitmap.length; i++) {
+        binary += String.fromCharCode(bitmap[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Base64からビットマップに戻す
+ */
+function decodeBitmap(encoded: string): Uint8Array {
+    const binary = atob(encoded);
+    const bitmap = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bitmap[i] = binary.charCodeAt(i);
+    }
+    return bitmap;
+}
+
 /**
  * WebRTC V2 - 階層チャンク対応高速転送マネージャー
  * バックプレッシャー制御、並列転送、堅牢性対策を実装
  */
 class WebRTCManagerV2 {
     public pc: RTCPeerConnection | null = null;
-    public dataChannel: RTCDataChannel | null = null;
+    public dataChannel: RTCDataChannel | null = null; // 制御用（JSONメッセージ）
+    public dataChannels: (RTCDataChannel | null)[] = []; // データ用プール（サブチャンクを分散送信）
+    public dataChannelCount: number = 3; // データ用DataChannel数（0なら制御用で全て送る）
+    public transferMode: TransferMode = 'reliable'; // データ用チャネルの配送方式
+    public earlyChunks: WireFrame[] = []; // ファイル開始前に届いたデータフレーム
+    public droppedEarlyChunks: { fileNumber: number; chunkIndex: number }[] = []; // 保持しきれず破棄したもの（ファイル開始後に再送要求）
+    public lastFinishedFileNumber: number = 0; // 受信を終えた（成功・失敗）最後のファイル番号
+    public resumeReportTimer: ReturnType<typeof setTimeout> | null = null;
     public chunkManager: ChunkManager | null = null;
-    public receiveManager: any = null;
+    public receiveManager: ReceiveManager | null = null;
     public isHost: boolean = false;
 
     // 転送制御
     public isTransferring: boolean = false;
     public currentMainChunk: MainChunk | null = null;
-    public sendQueue: ((value: unknown) => void)[] = [];
-    public maxConcurrentSends: number = 3;
+    public sendQueue: ((value: unknown) => void)[] = []; // バッファ空き待ちの送信
+    public maxConcurrentSends: number = 3; // 同時に読み込み・送信するサブチャンク数
     public activeSends: number = 0;
 
     // バックプレッシャー制御 - 天才的なフロー制御用
     public BUFFER_THRESHOLD: number = 64 * 1024 * 1024; // 64MB - 100GB対応
-    public adaptiveChunkSize: number = 1024 * 1024; // 1MBチャンク - 最適化
-    public sendSpeed: number = 100; // ms間隔
+    public adaptiveChunkSize: number = 1024 * 1024; // サブチャンクサイズ（ファイルごとに適用）
+
+    // 適応制御 - getStats()の統計から同時送信数・バッファ閾値・サブチャンクサイズを調整
+    public adaptiveEnabled: boolean = true;
+    public adaptiveController: AdaptiveController | null = null;
+    public adaptiveTimer: ReturnType<typeof setInterval> | null = null;
+    public lastAdaptiveDecision: AdaptiveDecision | null = null;
+    public ADAPTIVE_INTERVAL: number = 1000;
 
-    // バッファ管理
-    public bufferReady: boolean = true;
-    public bufferResolve: ((value: void) => void) | null = null;
+    // サブチャンク圧縮（送信側）- off: しない / auto: 縮んだチャンクだけ / always: 常に
+    public compressionMode: ChunkCompressionMode = 'off';
+    public compressionStats: { originalBytes: number; wireBytes: number } = { originalBytes: 0, wireBytes: 0 };
 
     // 進捗・ステータス
-    public onProgress: ((progress: number) => void) | null = null;
+    public onProgress: ((progress: number, direction: TransferDirection) => void) | null = null;
     public onStatusChange: ((state: string, message: string) => void) | null = null;
     public onFileReceived: ((fileInfo: FileInfo) => void) | null = null;
-    public onFileReceiveStart: ((filename: string, filesize: number) => void) | null = null;
-    public onStatsUpdate: ((stats: TransferStats) => void) | null = null;
+    public onFileFailed: ((fileInfo: FileInfo, reason: string) => void) | null = null;
+    public onFileReceiveStart: ((filename: string, filesize: number, fileId: string) => void) | null = null;
+    public onBatchStart: ((batchId: string, files: BatchFileEntry[]) => void) | null = null;
+    public onBatchEnd: ((batchId: string) => void) | null = null;
+    public onStatsUpdate: ((stats: TransferStats, direction: TransferDirection) => void) | null = null;
     public onConnected: (() => void) | null = null;
     public onDisconnected: (() => void) | null = null;
+    public onIceRestartNeeded: (() => void) | null = null;
+    public onSasReady: ((sas: string) => void) | null = null;
+    public onSwarmChunk: ((swarmKey: string, index: number, data: ArrayBuffer) => void) | null = null;
+
+    // 受信データの書き込み先（未設定時は window.createFileSink の自動選択）
+    public sinkFactory: ((filename: string, filesize: number, relativePath: string) => Promise<FileSink>) | null = null;
 
     // サーバー通信
     public sendToServer(data: ControlMessage | { type: string; candidate: RTCIceCandidate }): void {
@@ -164,6 +465,56 @@ class WebRTCManagerV2 {
     public retryAttempts: Map<string, number> = new Map();
     public maxRetries: number = 3;
 
+    // ACK待機（受信側の検証完了まで送信完了としない）
+
+    // ACKによるフロー制御（送信側）- ACK待ちのバイト数をウィンドウ内に抑え、届かないものは再送する
+    public ACK_WINDOW_SIZE: number = 128 * 1024 * 1024; // ACK待ちを許容する最大バイト数
+    public ACK_TIMEOUT: number = 30 * 1000;              // 送信からACKまでの最短タイムアウト
+    public ackCheckTimer: ReturnType<typeof setInterval> | null = null;
+    public windowWaiters: (() => void)[] = []; // ウィンドウ空き・ACK到着待ち
+    public transferError: string | null = null;
+    public currentFileId: string | null = null;
+    public currentFileNumber: number = 0;
+    public swarmChecksumsPublished: number = 0; // checksumを公開済みのメインチャンク数（スウォーム配布時）
+    public fileResultWaiter: { resolve: (result: FileReceivedMessage) => void; reject: (error: Error) => void } | null = null;
+    public FILE_RESULT_TIMEOUT: number = 2 * 60 * 1000; // 受信側の最終検証・保存を待つ上限（切断中は数えない）
+
+    // プロトコル確認（hello交換）
+    public nextFileNumber: number = 1;
+    public peerCapabilities: PeerCapabilities | null = null;
+    public negotiated: NegotiatedCapabilities | null = null; // 双方が対応する機能
+    public protocolError: string | null = null;
+    public handshakeWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+    public HANDSHAKE_TIMEOUT: number = 10 * 1000;
+
+    // エンドツーエンド暗号化 - 接続ごとにDataChannel上で鍵交換し、サブチャンク本体をAES-GCMで暗号化
+    public roomCode: string = ''; // 鍵導出のソルト（client/serverが設定）
+    public requireEncryption: boolean = true; // 相手が非対応なら転送しない
+    public e2eSession: Promise<E2ESession> | null = null;
+    public e2eKeysReady: Promise<void> | null = null;
+    public e2eReady: boolean = false; // 鍵確認まで完了
+    public e2eWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+    public peerKeyCommitment: string | null = null; // ホストの公開鍵のコミットメント（参加者側）
+
+    // 短い認証文字列（SAS） - DTLS証明書フィンガープリントとECDH公開鍵から導出し、画面同士で照合する
+    public sasCode: string | null = null;
+    public requireSasConfirmation: boolean = true; // 照合済みになるまでファイルを送らない
+    public sasConfirmed: boolean = false;
+
+    // 中断・再開制御
+    public transferPaused: boolean = false;
+    public wasInterrupted: boolean = false;
+    public resumeWaiters: (() => void)[] = [];
+    public resumeTimer: ReturnType<typeof setTimeout> | null = null;
+    public RESUME_TIMEOUT: number = 5 * 60 * 1000; // 5分以内に再接続できなければ失敗
+    public BITMAP_REPORT_BATCH: number = 64; // 1メッセージあたりのビットマップ（メインチャンク）数
+
+    // 選択的ACK - 受信側は受信済みビットマップを定期送信し、送信側は非信頼チャネルでのギャップを再送する
+    public ackReportTimer: ReturnType<typeof setInterval> | null = null;
+    public ACK_REPORT_INTERVAL: number = 200; // ビットマップ送信間隔（受信側）
+    public GAP_GRACE: number = 2000;          // 送信からギャップとみなすまでの猶予（チャネル間の追い越し分）
+    public GAP_IDLE_TIMEOUT: number = 3000;   // ACKが途絶えてから末尾の未ACKをギャップとみなすまで
+
     // 受信制御
     public receiveStartTime: number = 0;
     public lastBytesReceived: number = 0;
@@ -186,81 +537,231 @@ class WebRTCManagerV2 {
         };
 
         this.pc = new RTCPeerConnection(config);
+        this.sasCode = null; // 証明書が変わるため照合し直し
+        this.lastFinishedFileNumber = 0; // 新しい相手はファイル番号を1から振る
 
         if (isHost) {
-            this.dataChannel = this.pc.createDataChannel('fileTransfer-v2', {
-                ordered: true,
-                maxRetransmits: 3
-            });
+            this.dataChannel = this.createTransferChannel(CONTROL_CHANNEL_LABEL);
             this.setupDataChannel();
+            this.openDataChannelPool();
         } else {
             this.pc.ondatachannel = (event) => {
-                this.dataChannel = event.channel;
-                this.dataChannel.binaryType = 'arraybuffer';
-                this.setupDataChannel();
+                this.handleIncomingChannel(event.channel);
             };
         }
 
         this.setupPeerConnection();
     }
 
+    /**
+     * 転送用DataChannel作成（ホストのみ）
+     * 制御用はACK・再開報告の土台なので常に順序保証・高信頼
+     */
+    createTransferChannel(label: string, options: RTCDataChannelInit = { ordered: true }): RTCDataChannel {
+        return this.pc!.createDataChannel(label, options);
+    }
+
+    /**
+     * データ用DataChannelの配送設定
+     * unordered: 順不同・再送回数制限（欠損はインデックス付きヘッダーと受信ビットマップで補う）
+     */
+    getDataChannelOptions(): RTCDataChannelInit {
+        if (this.transferMode === 'unordered') {
+            // 1MBのメッセージは多数のパケットに分かれるため、再送0回だと損失率がそのまま増幅される
+            return { ordered: false, maxRetransmits: 2 };
+        }
+        return { ordered: true };
+    }
+
+    /**
+     * 転送モード切替（ホストのみ）- データ用プールを新しい設定で張り直す
+     */
+    setTransferMode(mode: TransferMode) {
+        if (this.negotiated && !this.negotiated.transferModes.includes(mode)) {
+            console.warn(`⚠️ 相手が転送モード ${mode} に対応していないため高信頼モードを使用します`);
+            mode = 'reliable';
+        }
+        this.transferMode = mode;
+        console.log(`🔀 転送モード: ${mode === 'unordered' ? '順不同（アプリ層で再送）' : '高信頼（順序保証）'}`);
+
+        if (this.isHost && this.pc && this.pc.signalingState !== 'closed') {
+            this.openDataChannelPool();
+        }
+    }
+
+    /**
+     * データ用チャネルが非信頼（再送回数・時間制限あり）か
+     */
+    isUnreliableTransport(): boolean {
+        return this.dataChannels.some(channel =>
+            !!channel && channel.readyState === 'open' &&
+            (channel.maxRetransmits !== null || channel.maxPacketLifeTime !== null)
+        );
+    }
+
+    /**
+     * データ用DataChannelプールを作成（ホストのみ）
+     */
+    openDataChannelPool() {
+        for (let slot = 0; slot < this.dataChannelCount; slot++) {
+            this.createPoolChannel(slot);
+        }
+        console.log(`🔀 データチャネルプール作成: ${this.dataChannelCount}本`);
+    }
+
+    /**
+     * プールの1本を作成（既存のものは閉じて置き換える）
+     */
+    createPoolChannel(slot: number) {
+        const previous = this.dataChannels[slot];
+        this.dataChannels[slot] = null;
+        if (previous) {
+            previous.close();
+        }
+
+        const channel = this.createTransferChannel(`${DATA_CHANNEL_LABEL_PREFIX}${slot}`, this.getDataChannelOptions());
+        this.dataChannels[slot] = channel;
+        this.setupPoolChannelEvents(channel, slot);
+    }
+
+    /**
+     * ホストから届いたDataChannelをラベルで振り分け（クライアント側）
+     */
+    handleIncomingChannel(channel: RTCDataChannel) {
+        if (channel.label.startsWith(DATA_CHANNEL_LABEL_PREFIX)) {
+            const slot = parseInt(channel.label.slice(DATA_CHANNEL_LABEL_PREFIX.length));
+            this.dataChannels[slot] = channel;
+            this.setupPoolChannelEvents(channel, slot);
+        } else {
+            this.dataChannel = channel;
+            this.setupDataChannel();
+        }
+    }
+
+    /**
+     * データ用DataChannelのイベント設定
+     */
+    setupPoolChannelEvents(channel: RTCDataChannel, slot: number) {
+        channel.binaryType = 'arraybuffer';
+        channel.bufferedAmountLowThreshold = Math.floor(this.BUFFER_THRESHOLD / 2);
+
+        channel.onopen = () => {
+            console.log(`🔗 データチャネル${slot} 接続確立`);
+
+            // 受信途中に張り直された場合、落ちたチャネル上で失われたチャンクを送り直してもらう
+            if (this.receiveManager && !this.receiveManager.completed) {
+                this.scheduleResumeReport();
+            }
+        };
+
+        channel.onmessage = async (event) => {
+            await this.handleFrame(event.data);
+        };
+
+        channel.onbufferedamountlow = () => {
+            this.releaseSendQueue();
+        };
+
+        channel.onerror = (error) => {
+            console.error(`❌ データチャネル${slot} エラー:`, error);
+        };
+
+        channel.onclose = () => {
+            // 置き換え済みのチャネルのcloseは無視
+            if (channel !== this.dataChannels[slot]) return;
+
+            console.log(`🔌 データチャネル${slot} 切断 - 他のチャネルで転送を継続`);
+            this.dataChannels[slot] = null;
+            this.recoverPoolChannel(slot);
+        };
+    }
+
+    /**
+     * プールの1本だけを張り直す（ホストのみ）
+     * 接続全体が切れた場合は制御用チャネルの復旧でまとめて張り直す
+     */
+    recoverPoolChannel(slot: number) {
+        if (!this.isHost || !this.pc || this.pc.connectionState !== 'connected') return;
+        if (!this.dataChannel || this.dataChannel.readyState !== 'open') return;
+
+        try {
+            console.log(`🔄 データチャネル${slot} 再作成`);
+            this.createPoolChannel(slot);
+        } catch (error) {
+            console.error(`❌ データチャネル${slot} 再作成失敗:`, error);
+        }
+    }
+
+    /**
+     * 再開報告を少し遅らせて送信（複数チャネルが続けて開いた場合は1回にまとめる）
+     */
+    scheduleResumeReport() {
+        if (this.resumeReportTimer) return;
+
+        this.resumeReportTimer = setTimeout(() => {
+            this.resumeReportTimer = null;
+            this.sendResumeReport();
+        }, 500);
+    }
+
+    /**
+     * バッファ空き待ちの送信をすべて再開
+     */
+    releaseSendQueue() {
+        const waiters = this.sendQueue;
+        this.sendQueue = [];
+        waiters.forEach(resolve => resolve(undefined));
+    }
+
+    /**
+     * バイナリ送信に使うDataChannelを選択
+     * 開いているデータ用チャネルのうちバッファが最も少ないもの（無ければ制御用）
+     */
+    selectSendChannel(): RTCDataChannel | null {
+        const open = this.dataChannels.filter((channel): channel is RTCDataChannel => !!channel && channel.readyState === 'open');
+        if (open.length === 0) {
+            return this.dataChannel && this.dataChannel.readyState === 'open' ? this.dataChannel : null;
+        }
+        return open.reduce((best, channel) => channel.bufferedAmount < best.bufferedAmount ? channel : best);
+    }
+
     /**
      * DataChannelイベント設定
      */
     setupDataChannelEvents() {
         if (!this.dataChannel) return;
 
+        const channel = this.dataChannel;
         this.dataChannel.binaryType = 'arraybuffer';
 
-        // バックプレッシャー制御用
-        this.dataChannel.bufferedAmountLowThreshold = 1024 * 1024; // 1MB
+        // バックプレッシャー制御用（閾値の半分まで減ったら送信を再開）
+        this.dataChannel.bufferedAmountLowThreshold = Math.floor(this.BUFFER_THRESHOLD / 2);
 
         this.dataChannel.onopen = () => {
             console.log('🔗 WebRTC V2 DataChannel接続確立');
             this.updateStatus('connected', '✅ P2P接続確立 - 高速転送準備完了');
+
+            // 接続のたびにプロトコル・対応機能を確認し直し、暗号鍵も作り直す
+            this.peerCapabilities = null;
+            this.negotiated = null;
+            this.resetEncryption();
+            this.sendHello();
+
+            // 受信途中のファイルがあれば保持状況を報告して再開を促す
+            this.wasInterrupted = false;
+            this.sendResumeReport();
         };
 
         this.dataChannel.onmessage = async (event) => {
-            try {
-                const data = JSON.parse(event.data);
-                if (data.type === 'file-info') {
-                    // 新しいファイル情報処理
-                    console.log(`📁 ファイル情報受信: ${data.filename} (${this.formatFileSize(data.filesize)})`);
-                    this.updateStatus('receiving', `📁 ${data.filename} を受信中...`);
-
-                    this.receiveManager = {
-                        filename: data.filename,
-                        filesize: data.filesize,
-                        receivedChunks: new Map(),
-                        expectedChunks: new Map(),
-                        completedChunks: new Set(),
-                        totalReceived: 0,
-                        totalMainChunks: 1,
-                        totalSubChunks: Math.ceil(data.filesize / (1024 * 1024))
-                    };
-
-                    if (this.onFileReceiveStart) {
-                        this.onFileReceiveStart(data.filename, data.filesize);
-                    }
-                } else {
-                    await this.handleControlMessage(data);
-                }
-            } catch (e) {
-                // バイナリデータ受信
-                await this.handleDirectBinaryData(event.data);
-            }
+            await this.handleFrame(event.data);
         };
 
         this.dataChannel.onbufferedamountlow = () => {
             // バッファが空いたことを通知 - 天才的なバックプレッシャー制御
             console.log('📤 送信バッファに空きができました - 転送を再開');
-            this.bufferReady = true;
 
-            // バッファ空きイベントリスナーに通知
-            if (this.bufferResolve) {
-                this.bufferResolve();
-                this.bufferResolve = null;
-            }
+            // バッファ空き待ちの送信をすべて再開
+            this.releaseSendQueue();
         };
 
         this.dataChannel.onerror = (error) => {
@@ -269,10 +770,15 @@ class WebRTCManagerV2 {
         };
 
         this.dataChannel.onclose = () => {
+            // 再作成で置き換えられた古いチャンネルのcloseは無視
+            if (channel !== this.dataChannel) return;
+
             console.log('🔌 DataChannel切断');
             this.updateStatus('disconnected', '❌ 接続が切断されました');
             // DataChannelはnullにせず、切断状態のまま保持
             // 次回使用時に再接続処理を行う
+            this.handleDisconnection();
+            this.recoverDataChannel();
         };
     }
 
@@ -303,210 +809,410 @@ class WebRTCManagerV2 {
 
             if (this.pc?.connectionState === 'connected') {
                 this.updateStatus('connected', '🚀 高速転送モード準備完了');
+                this.handleReconnection();
             } else if (this.pc?.connectionState === 'disconnected') {
                 this.handleDisconnection();
+            } else if (this.pc?.connectionState === 'failed') {
+                this.handleDisconnection();
+                // ICE再起動はOffer側（ホスト）から行う
+                if (this.isHost && this.onIceRestartNeeded) {
+                    console.log('🧊 ICE再起動を要求');
+                    this.onIceRestartNeeded();
+                }
             }
         };
 
         // 接続品質監視
         this.pc.oniceconnectionstatechange = () => {
             console.log('🧊 ICE接続状態:', this.pc?.iceConnectionState);
-            this.adjustTransferSpeed();
         };
     }
 
+    /**
+     * バッチ開始通知 - 送信するファイル一覧を先に受信側へ伝える
+     */
+    async sendBatchStart(files: File[], relativePaths: string[] = []): Promise<{ batchId: string; files: BatchFileEntry[] }> {
+        this.ensureSasConfirmed();
+        const batchId = Date.now().toString(36);
+        const entries: BatchFileEntry[] = files.map((file, index) => ({
+            fileId: `${batchId}-${index}`,
+            name: file.name,
+            size: file.size,
+            relativePath: relativePaths[index] || file.name
+        }));
+
+        console.log(`📦 バッチ開始: ${batchId} (${entries.length}ファイル)`);
+        await this.sendMessage({ type: 'batch-start', batchId: batchId, files: entries });
+        return { batchId, files: entries };
+    }
+
+    /**
+     * バッチ終了通知
+     */
+    async sendBatchEnd(batchId: string) {
+        console.log(`📦 バッチ終了: ${batchId}`);
+        await this.sendMessage({ type: 'batch-end', batchId: batchId });
+    }
+
     /**
      * ファイル送信（V2）
+     * chunkReader: 一斉送信時に他の受信者と共有する読み込み元
+     * swarm: スウォーム配布での担当（受信者同士の交換でサブチャンクを揃えるため、サイズも全員で揃える）
      */
-    async sendFile(file: File) {
+    async sendFile(file: File, fileId: string = Date.now().toString(36), relativePath: string = file.name, chunkReader: ChunkReader | null = null, swarm: SwarmShare | null = null) {
         // DataChannelが準備できているかチェック
         if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
             console.log('⚠️ DataChannelが未準備。接続を待機...');
             await this.waitForDataChannelReady();
         }
 
+        // 相手が同じフレーム形式に対応し、暗号鍵が確立していることを確認してから送る
+        await this.waitForHandshake();
+        await this.waitForEncryption();
+        this.ensureSasConfirmed();
+
+        // 設定変更された送信バッファ閾値を反映
+        this.applyBufferThreshold();
+
+        // ピース鍵はE2Eの鍵で包んで渡すため、暗号化していない相手とは受信者同士で交換させない
+        if (swarm && !this.e2eReady) {
+            console.warn('⚠️ 暗号化していない相手のため、スウォーム交換せずに全チャンクを送ります');
+            swarm = null;
+        }
+
         console.log(`📁 ファイル送信開始: ${file.name} (${this.formatFileSize(file.size)})`);
 
-        const CHUNK_SIZE = 1024 * 1024; // 1MB
-        const BUFFER_THRESHOLD = 64 * 1024 * 1024; // 64MB
-        let offset = 0;
-
-        while (offset < file.size) {
-            // バッファが閾値を超えていたら、送信を待機する
-            if (this.dataChannel!.bufferedAmount > BUFFER_THRESHOLD) {
-                console.log(`⏳ バッファ待機: ${this.formatFileSize(this.dataChannel!.bufferedAmount)}`);
-                await new Promise<void>((resolve) => {
-                    // バッファが減ったら再開するためのイベントリスナー
-                    this.dataChannel!.onbufferedamountlow = () => {
-                        console.log('📤 バッファ解放、再開');
-                        resolve();
-                    };
-                });
-                continue; // 待機後、再度ループの先頭から条件をチェック
-            }
+        // 階層チャンク分割（サブチャンクサイズは適応制御の結果をファイル単位で反映し、交渉した上限に収める）
+        this.chunkManager = new window.ChunkManager(file, this.fitSubChunkSize(swarm ? swarm.subChunkSize : this.adaptiveChunkSize));
+        this.chunkManager.MAX_RETRIES = this.maxRetries;
+        this.chunkManager.chunkReader = chunkReader;
+        this.chunkManager.swarmShare = swarm;
+        this.currentFileId = fileId;
+        this.currentFileNumber = this.nextFileNumber++;
+        this.compressionStats = { originalBytes: 0, wireBytes: 0 };
+        this.swarmChecksumsPublished = 0;
+        const totalSubChunks = this.chunkManager.mainChunks.reduce((sum, chunk) => sum + chunk.subChunks.length, 0);
+
+        // ファイル開始を通知（受信側はこの情報でインデックス→オフセットを計算する）
+        await this.sendMessage({
+            type: 'file-start-v2',
+            fileId: fileId,
+            fileNumber: this.currentFileNumber,
+            filename: file.name,
+            filesize: file.size,
+            relativePath: relativePath,
+            totalMainChunks: this.chunkManager.mainChunks.length,
+            totalSubChunks: totalSubChunks,
+            mainChunkSize: this.chunkManager.MAIN_CHUNK_SIZE,
+            subChunkSize: this.chunkManager.SUB_CHUNK_SIZE,
+            swarm: swarm ? { ...swarm, pieceKey: await this.wrapSwarmPieceKey(swarm.pieceKey, fileId) } : undefined
+        });
+
+        this.isTransferring = true;
+        this.transferError = null;
+        this.chunkManager.startTransfer();
+        this.startAdaptiveControl();
+        this.startAckTimeoutCheck();
 
-            const chunk = file.slice(offset, offset + CHUNK_SIZE);
-            const chunkData = await chunk.arrayBuffer();
-            this.dataChannel!.send(chunkData);
-            offset += chunkData.byteLength;
+        try {
+            // 受信側で全サブチャンクのチェックサム検証が終わる（全ACK）まで送信・再送を続ける
+            await this.startMainChunkTransfer();
 
-            console.log(`📤 チャンク送信: ${this.formatFileSize(chunkData.byteLength)} (進捗: ${Math.round((offset / file.size) * 100)}%)`);
+            if (this.transferError) {
+                throw new Error(this.transferError);
+            }
+            if (!this.chunkManager.isCompleted()) {
+                const reason = `${file.name} の送信に失敗したチャンクがあります`;
+                await this.failTransfer(reason);
+                throw new Error(reason);
+            }
 
-            // 進捗更新
-            const progress = (offset / file.size) * 100;
-            if (this.onProgress) this.onProgress(progress);
+            // ファイル全体のダイジェストを添えて完了通知
+            const fileDigest = await this.chunkManager.calculateFileDigest();
+            console.log(`🔏 ファイルダイジェスト: ${fileDigest}`);
+            const resultPromise = this.waitForFileResult();
+            await this.sendMessage({ type: 'transfer-complete', fileId: fileId, fileDigest: await this.protectChecksum(fileDigest) });
+
+            // 受信側の最終検証・保存結果を待ってから次のファイルへ進む
+            const result = await resultPromise;
+            if (!result.success) {
+                throw new Error(`${file.name} の受信側検証に失敗しました: ${result.reason || '不明なエラー'}`);
+            }
+            this.updateStatus('completed', '✅ ファイル転送完了！');
+        } finally {
+            this.isTransferring = false;
+            this.stopAdaptiveControl();
+            this.stopAckTimeoutCheck();
+            this.notifyWindowWaiters();
         }
 
         console.log('✅ ファイル送信完了');
     }
 
+    /**
+     * スウォームのピース鍵をE2Eの鍵で暗号化（シグナリングサーバーや他の接続からは読めない）
+     */
+    async wrapSwarmPieceKey(pieceKey: string, fileId: string): Promise<string> {
+        const session = await this.e2eSession!;
+        const wrapped = await session.encrypt(this.base64ToArrayBuffer(pieceKey), this.createSwarmKeyAad(fileId));
+        return this.arrayBufferToBase64(wrapped);
+    }
+
+    /**
+     * 受け取ったピース鍵を復号（取り出せなければnullで、他の受信者とは交換しない）
+     */
+    async unwrapSwarmPieceKey(data: FileStartV2Message): Promise<CryptoKey | null> {
+        try {
+            await this.waitForEncryption();
+            if (!data.swarm?.pieceKey || !this.e2eReady) {
+                throw new Error('暗号化されていない接続です');
+            }
+            const session = await this.e2eSession!;
+            const raw = await session.decrypt(this.base64ToArrayBuffer(data.swarm.pieceKey), this.createSwarmKeyAad(data.fileId));
+            return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+        } catch (error) {
+            console.warn('⚠️ スウォームのピース鍵を取り出せないため、他の受信者とは交換しません:', error);
+            return null;
+        }
+    }
+
+    /**
+     * ピース鍵の暗号文に紐づける情報（別のファイルの鍵への差し替えを検出）
+     */
+    createSwarmKeyAad(fileId: string): ArrayBuffer {
+        return new TextEncoder().encode(`swarm-piece-key/${fileId}`).buffer as ArrayBuffer;
+    }
+
+    /**
+     * 交渉済みの最大メッセージサイズにフレームが収まるサブチャンクサイズ
+     * 半分にしてもメインチャンクを割り切れるよう2のべき乗で縮める
+     */
+    fitSubChunkSize(requested: number): number {
+        const maxMessageSize = this.negotiated?.maxMessageSize || 0;
+        if (maxMessageSize <= 0) return requested;
+
+        let size = requested;
+        while (size + window.WireFormat.HEADER_SIZE > maxMessageSize && size > MIN_SUB_CHUNK_SIZE) {
+            size = size / 2;
+        }
+        if (size !== requested) {
+            console.log(`📏 最大メッセージサイズ ${this.formatFileSize(maxMessageSize)} に合わせてサブチャンクを ${this.formatFileSize(size)} に縮小`);
+        }
+        return size;
+    }
+
+    /**
+     * 受信側の最終判定（file-received）を待機（届かなければ失敗としてバッチを先へ進める）
+     */
+    waitForFileResult(): Promise<FileReceivedMessage> {
+        return new Promise<FileReceivedMessage>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout>;
+            const arm = () => {
+                timer = setTimeout(() => {
+                    // 再接続待ちの間は再開後の再送に任せて待ち直す
+                    if (this.transferPaused) {
+                        arm();
+                        return;
+                    }
+                    if (this.fileResultWaiter === entry) {
+                        this.fileResultWaiter = null;
+                    }
+                    reject(new Error('受信側から最終判定が届きません'));
+                }, this.FILE_RESULT_TIMEOUT);
+            };
+
+            const entry = {
+                resolve: (result: FileReceivedMessage) => { clearTimeout(timer); resolve(result); },
+                reject: (error: Error) => { clearTimeout(timer); reject(error); }
+            };
+            this.fileResultWaiter = entry;
+            arm();
+        });
+    }
+
+    /**
+     * 最終判定受信処理（送信側）
+     */
+    handleFileResult(data: FileReceivedMessage) {
+        if (data.fileId !== this.currentFileId || !this.fileResultWaiter) {
+            console.warn(`⚠️ 対象外のファイル判定を無視: ${data.fileId}`);
+            return;
+        }
+
+        console.log(`📨 受信側判定: ${data.fileId} ${data.success ? '成功' : '失敗'}`);
+        this.fileResultWaiter.resolve(data);
+        this.fileResultWaiter = null;
+    }
+
     /**
      * メインチャンク転送開始
      */
     async startMainChunkTransfer() {
         while (this.isTransferring && !this.chunkManager!.isCompleted()) {
+            // 切断中は再開まで待機
+            await this.waitForResume();
+            if (!this.isTransferring) break;
+
             this.currentMainChunk = this.chunkManager!.getNextMainChunk();
 
+            // 担当外のサブチャンクは他の受信者から届くので、送信位置までのchecksumを先に公開する
+            await this.publishSwarmChecksums(this.currentMainChunk ? this.currentMainChunk.index : Infinity);
+
             if (!this.currentMainChunk) {
-                // 失敗したチャンクの再送
+                // 失敗・ACKタイムアウトしたチャンクの再送
                 const retryChunks = this.chunkManager!.getRetryList();
                 if (retryChunks.length > 0) {
                     console.log(`🔄 失敗チャンク再送: ${retryChunks.length}個`);
                     await this.retryFailedChunks(retryChunks);
                     continue;
-                } else {
-                    break; // 完了
                 }
+                if (this.chunkManager!.hasFailedSubChunks()) {
+                    break; // 再送上限に達したチャンクがある
+                }
+
+                // 全て送信済み - ACK到着（またはタイムアウトによる再送対象の発生）を待つ
+                await this.waitForWindowChange();
+                continue;
             }
 
             this.currentMainChunk.status = 'sending';
             console.log(`📦 メインチャンク転送開始: ${this.currentMainChunk.id} (${this.currentMainChunk.subChunks.length}サブチャンク)`);
 
             // サブチャンクを並列送信
-            await this.sendSubChunksSequential(this.currentMainChunk);
+            await this.sendSubChunksParallel(this.currentMainChunk);
 
-            // メインチャンクのステータスを更新
-            this.currentMainChunk.status = 'completed';
+            // メインチャンクのステータスはサブチャンクの結果から更新される（失敗分は再送リストへ）
+            this.chunkManager!.updateMainChunkStatus();
 
             // 進捗更新
-            await this.updateProgress();
-
-            // 少し待機して次のチャンクへ
-            await new Promise(resolve => setTimeout(resolve, 100));
+            await this.updateProgress('send');
         }
 
         if (this.chunkManager!.isCompleted()) {
-            try {
-                await this.sendMessage({ type: 'transfer-complete' });
-                console.log('✅ すべてのチャンク転送完了');
-                this.updateStatus('completed', '✅ ファイル転送完了！');
-            } catch (error) {
-                console.warn('⚠️ transfer-complete送信エラー（無視）:', error);
-                // 転送完了メッセージの送信失敗は無視して継続
-            }
+            console.log('✅ すべてのチャンクのACK受信完了');
         }
-
-        this.isTransferring = false;
-
-        // 少し待機してDataChannelを安定させる
-        await new Promise(resolve => setTimeout(resolve, 500));
     }
 
     /**
-     * サブチャンクを並列送信
+     * スウォーム配布で、upToまでのメインチャンクのサブチャンクchecksumを送信側の接続で公開する
+     * 受信者は他の受信者から届いたサブチャンクをこれと照合する（一斉送信の共有元で計算済みのものを使う）
      */
-    async sendSubChunksSequential(mainChunk: MainChunk) {
-        const subChunks = mainChunk.subChunks;
-
-        console.log(`📦 天才的な逐次転送開始: ${mainChunk.id} (${subChunks.length}サブチャンク)`);
-
-        // ドキュメント通りのwhileループで逐次送信
-        for (const subChunk of subChunks) {
-            // 天才的なバックプレッシャー制御 - ドキュメント通り
-            if (this.dataChannel && this.dataChannel.bufferedAmount > this.BUFFER_THRESHOLD) {
-                console.log(`⏳ 天才的なバックプレッシャー待機: ${this.formatFileSize(this.dataChannel.bufferedAmount)}`);
-                await new Promise<void>((resolve) => {
-                    const originalHandler = this.dataChannel!.onbufferedamountlow;
-                    this.dataChannel!.onbufferedamountlow = () => {
-                        console.log('📤 天才的なバッファ解放検知！');
-                        this.dataChannel!.onbufferedamountlow = originalHandler;
-                        resolve();
-                    };
-                });
+    async publishSwarmChecksums(upTo: number) {
+        const chunkManager = this.chunkManager!;
+        if (!chunkManager.swarmShare || chunkManager.swarmShare.shareCount <= 1) return;
+
+        while (this.swarmChecksumsPublished < chunkManager.mainChunks.length && this.swarmChecksumsPublished <= upTo) {
+            const mainChunk = chunkManager.mainChunks[this.swarmChecksumsPublished];
+            const checksums: string[] = [];
+            for (const subChunk of mainChunk.subChunks) {
+                if (!subChunk.checksum) {
+                    subChunk.checksum = await chunkManager.getSubChunkChecksum(subChunk);
+                }
+                checksums.push(await this.protectChecksum(subChunk.checksum));
             }
 
-            // 一つずつ送信（これが天才的な方法）
-            console.log(`🚀 天才的な逐次送信: ${subChunk.id}`);
-            await this.sendSubChunk(subChunk);
+            await this.sendMessage({ type: 'swarm-checksums', fileId: this.currentFileId!, mainIndex: mainChunk.index, checksums });
+            this.swarmChecksumsPublished++;
+            // 担当外のサブチャンクはここから一定時間ACKがなければ自分で送る
+            chunkManager.markSwarmReached(mainChunk.index);
         }
-
-        console.log(`✅ 天才的なメインチャンク転送完了: ${mainChunk.id}`);
     }
 
     /**
-     * サブチャンク送信
+     * サブチャンクを並列送信
+     * maxConcurrentSends個のワーカーが読み込み・ハッシュ計算を先行させ、送信はバッファの空きに合わせて行う
+     */
+    async sendSubChunksParallel(mainChunk: MainChunk) {
+        // 再開時は受信側が保持しているチャンクを、スウォーム配布では担当外のチャンクを飛ばす
+        const pending = mainChunk.subChunks.filter(subChunk => subChunk.status === 'pending' && this.chunkManager!.isInSwarmShare(subChunk));
+        const workerCount = Math.max(1, Math.min(this.maxConcurrentSends, pending.length));
+        let nextIndex = 0;
+
+        console.log(`📦 並列転送開始: ${mainChunk.id} (${pending.length}サブチャンク, 同時${workerCount})`);
+
+        // 適応制御で同時送信数が減った場合は番号の大きいワーカーから抜ける（増加は次のメインチャンクから）
+        const worker = async (workerId: number) => {
+            while (nextIndex < pending.length && workerId < this.maxConcurrentSends) {
+                await this.waitForResume();
+                if (!this.isTransferring) return;
+
+                const subChunk = pending[nextIndex++];
+                await this.sendSubChunk(subChunk);
+            }
+        };
+
+        await Promise.all(Array.from({ length: workerCount }, (_, workerId) => worker(workerId)));
+
+        console.log(`✅ メインチャンク転送完了: ${mainChunk.id}`);
+    }
+
+    /**
+     * サブチャンク送信
      */
     async sendSubChunk(subChunk: SubChunk) {
+        this.activeSends++;
         try {
-            // チャンクデータ取得
-            const chunkData = await this.chunkManager!.getChunkData(subChunk);
-            const checksum = await this.chunkManager!.calculateChecksum(chunkData);
-
-            // ドキュメント通りの天才的バックプレッシャー制御
-            if (this.dataChannel && this.dataChannel.bufferedAmount > this.BUFFER_THRESHOLD) {
-                console.log(`⏳ 天才的なバックプレッシャー待機: ${this.formatFileSize(this.dataChannel.bufferedAmount)}`);
-                await new Promise<void>((resolve) => {
-                    this.dataChannel!.onbufferedamountlow = () => {
-                        console.log('📤 天才的なバッファ解放検知！');
-                        resolve();
-                    };
-                });
+            // 切断中は送らず、再開時の受信側報告に従って再送する
+            if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+                this.pauseTransfer();
+                return;
             }
 
-            // 構造化されたチャンクヘッダー + データ（Base64廃止）
-            const header = new ArrayBuffer(8); // 4バイトindex + 4バイトsize
-            const headerView = new DataView(header);
-            headerView.setUint32(0, subChunk.index, true); // little-endian
-            headerView.setUint32(4, chunkData.byteLength, true);
+            // ACK待ちがウィンドウを超えないよう、読み込み前に空きを待つ
+            await this.waitForAckWindow(subChunk.size);
+            if (!this.isTransferring || this.transferPaused) return;
+
+            // チャンクデータ取得（他のサブチャンクの送信と並行して読み込み・ハッシュ計算する）
+            const chunkData = await this.chunkManager!.getChunkData(subChunk);
+            const checksum = await this.chunkManager!.getSubChunkChecksum(subChunk, chunkData);
+
+            // バックプレッシャー制御 - 送信バッファが閾値を下回っているチャネルを待つ
+            const channel = await this.waitForBufferSpace();
+
+            // 圧縮→暗号化（チェックサムは元データで計算済み、受信側は復号・展開してから検証する）
+            const compressed = await this.compressForSend(chunkData);
+            const { payload, flags: compressionFlags } = await this.encryptForSend(compressed.payload, compressed.flags, subChunk);
+
+            // データフレーム（ファイル番号・通し番号・64bitオフセット付き）
+            const frame = window.WireFormat.encodeFrame({
+                type: window.WireFormat.FrameType.DATA,
+                flags: (subChunk.sentSeq >= 0 ? window.WireFormat.FRAME_FLAG_RETRANSMIT : 0) | compressionFlags,
+                fileNumber: this.currentFileNumber,
+                chunkIndex: subChunk.globalIndex,
+                offset: subChunk.start
+            }, payload);
 
             // 天才的なチャンクメッセージ（制御用） - サイズ大幅削減
             const controlMessage: ChunkMetadataMessage = {
                 type: 'chunk-metadata',
                 chunkId: subChunk.id,
                 mainChunkId: subChunk.mainChunkId,
-                checksum: checksum,
-                index: subChunk.index
+                checksum: await this.protectChecksum(checksum),
+                index: subChunk.globalIndex
             };
 
             // 制御メッセージを送信
             await this.sendMessage(controlMessage);
 
-            // バイナリデータを直接送信（天才的な方法）
-            await this.sendBinaryData(header, chunkData);
+            // データフレームを送信（データ用チャネルに分散、受信側はオフセットで配置）
+            await this.sendBinaryData(frame, channel);
 
-            // チャンクマネージャーに完了を通知
-            this.chunkManager!.markSubChunkCompleted(subChunk.id, checksum);
+            // 受信側のACKが届くまでは送信済み（ACK待ち）として扱う
+            this.chunkManager!.markSubChunkSent(subChunk.id, checksum);
 
-            console.log(`📤 サブチャンク送信完了: ${subChunk.id} (${this.formatFileSize(subChunk.size)}) - バイナリ直接転送`);
+            console.log(`📤 サブチャンク送信完了: ${subChunk.id} (${this.formatFileSize(subChunk.size)}) - ACK待ち`);
 
             // 進捗更新
-            await this.updateProgress();
+            await this.updateProgress('send');
 
         } catch (error) {
             console.error(`❌ サブチャンク送信失敗: ${subChunk.id}`, error);
 
-            // DataChannelが切断された場合は再接続を試みる
-            if (error instanceof Error && error.message.includes('readyState is not')) {
-                console.log('🔄 DataChannel再接続を試みます...');
-                await this.waitForDataChannelReady();
-                // 再送信を試みる
-                try {
-                    await this.sendSubChunk(subChunk);
-                    console.log(`✅ サブチャンク再送信成功: ${subChunk.id}`);
-                    return;
-                } catch (retryError) {
-                    console.error(`❌ サブチャンク再送信失敗: ${subChunk.id}`, retryError);
-                }
+            // DataChannelが切断された場合は再接続後の再開に任せる（失敗回数には数えない）
+            if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+                console.log('🔄 DataChannel切断のため再開待ちに移行します');
+                this.pauseTransfer();
+                return;
             }
 
             this.chunkManager!.markSubChunkFailed(subChunk.id);
@@ -517,62 +1223,130 @@ class WebRTCManagerV2 {
 
     /**
      * 天才的なバッファ空き待機 - バックプレッシャー制御
+     * 並列送信の各ワーカーがsendQueueで待機し、bufferedamountlowで一斉に再開する
+     * 送信バッファが閾値を下回ったDataChannelを返す
      */
-    async waitForBufferSpace() {
-        if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
-            throw new Error('DataChannelが準備できていません');
+    async waitForBufferSpace(): Promise<RTCDataChannel> {
+        while (true) {
+            const channel = this.selectSendChannel();
+            if (!channel) {
+                throw new Error('DataChannelが準備できていません');
+            }
+            const threshold = this.getSendBufferThreshold();
+            if (channel.bufferedAmount <= threshold) {
+                return channel;
+            }
+
+            console.log(`⏳ 天才的なバッファ制御: ${this.formatFileSize(channel.bufferedAmount)}/${this.formatFileSize(threshold)}`);
+
+            // バッファ空きをPromiseで待機（イベント駆動、イベントが来ない場合は100msで再確認）
+            await new Promise(resolve => {
+                this.sendQueue.push(resolve);
+                setTimeout(() => {
+                    this.sendQueue = this.sendQueue.filter(waiter => waiter !== resolve);
+                    resolve(undefined);
+                }, 100);
+            });
         }
+    }
 
-        // バッファが閾値を超えている場合、天才的な待機処理
-        while (this.dataChannel.bufferedAmount > this.BUFFER_THRESHOLD) {
-            console.log(`⏳ 天才的なバッファ制御: ${this.formatFileSize(this.dataChannel.bufferedAmount)}/${this.formatFileSize(this.BUFFER_THRESHOLD)}`);
+    /**
+     * 送信バッファの上限
+     * 相手からも受信中（全二重）はこちらが返すACKビットマップ・制御メッセージが
+     * 送信データの後ろで待たされないよう、バッファを半分に抑えて両方向で帯域を分け合う
+     */
+    getSendBufferThreshold(): number {
+        const receiving = !!this.receiveManager && !this.receiveManager.completed;
+        return receiving ? Math.floor(this.BUFFER_THRESHOLD / 2) : this.BUFFER_THRESHOLD;
+    }
 
-            // バッファ空きをPromiseで待機（イベント駆動）
-            if (this.bufferReady) {
-                this.bufferReady = false;
-                return new Promise<void>((resolve) => {
-                    this.bufferResolve = resolve;
-                });
+    /**
+     * 送信するサブチャンクを設定に応じて圧縮
+     * 相手が対応する形式が無い場合は圧縮しない。autoでは縮まないチャンク（圧縮済みメディア等）は素通しする
+     */
+    async compressForSend(chunkData: ArrayBuffer): Promise<{ payload: ArrayBuffer; flags: number }> {
+        const format = this.negotiated?.compression[0] as ChunkCompressionFormat | undefined;
+        let payload = chunkData;
+        let flags = 0;
+
+        if (this.compressionMode !== 'off' && format) {
+            try {
+                const compressed = await window.compressChunk(chunkData, format);
+                if (this.compressionMode === 'always' || compressed.byteLength < chunkData.byteLength) {
+                    payload = compressed;
+                    flags = format === 'gzip' ? window.WireFormat.FRAME_FLAG_GZIP : window.WireFormat.FRAME_FLAG_DEFLATE;
+                }
+            } catch (error) {
+                console.warn('⚠️ チャンク圧縮に失敗したため無圧縮で送信します:', error);
             }
+        }
 
-            // イベントが来ない場合のフォールバック（100ms待機）
-            await new Promise(resolve => setTimeout(resolve, 100));
+        this.compressionStats.originalBytes += chunkData.byteLength;
+        this.compressionStats.wireBytes += payload.byteLength;
+        return { payload, flags };
+    }
 
-            // 送信速度の動的調整
-            this.adjustTransferSpeed();
-        }
+    /**
+     * 暗号化（鍵交換済みなら必須、再接続で鍵を作り直している間は待機）
+     */
+    async encryptForSend(payload: ArrayBuffer, flags: number, subChunk: SubChunk): Promise<{ payload: ArrayBuffer; flags: number }> {
+        if (!this.negotiated?.encryption.length) return { payload, flags };
+
+        await this.waitForEncryption();
+        const session = await this.e2eSession!;
+        const encryptedFlags = flags | window.WireFormat.FRAME_FLAG_ENCRYPTED;
+        const additionalData = this.createFrameAad(this.currentFileNumber, subChunk.globalIndex, subChunk.start, encryptedFlags);
+        return {
+            payload: await session.encrypt(payload, additionalData),
+            flags: encryptedFlags
+        };
     }
 
     /**
-     * 天才的なバイナリデータ統合送信 - ヘッダー+データ一体化
+     * 暗号文に紐づけるヘッダー情報（別の位置・別のファイルへの差し替えや圧縮フラグの改ざんを検出）
      */
-    async sendBinaryData(header: ArrayBuffer, data: ArrayBuffer) {
-        if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+    createFrameAad(fileNumber: number, chunkIndex: number, offset: number, flags: number): ArrayBuffer {
+        const aad = new ArrayBuffer(18);
+        const view = new DataView(aad);
+        view.setUint32(0, fileNumber, true);
+        view.setUint32(4, chunkIndex, true);
+        view.setBigUint64(8, BigInt(offset), true);
+        // 再送フラグは送るたびに変わるため含めない
+        view.setUint16(16, flags & ~window.WireFormat.FRAME_FLAG_RETRANSMIT, true);
+        return aad;
+    }
+
+    /**
+     * 圧縮統計（圧縮していなければnull）
+     */
+    getCompressionStats(originalBytes: number, wireBytes: number): CompressionStats | null {
+        if (originalBytes === 0 || originalBytes === wireBytes) return null;
+        return { originalBytes, wireBytes, ratio: wireBytes / originalBytes };
+    }
+
+    /**
+     * フレーム送信
+     */
+    async sendBinaryData(frame: ArrayBuffer, channel: RTCDataChannel) {
+        if (channel.readyState !== 'open') {
             throw new Error('DataChannelが準備できていません');
         }
 
         try {
-            // ヘッダーとデータを統合したArrayBufferを作成
-            const combinedBuffer = new ArrayBuffer(header.byteLength + data.byteLength);
-            const combinedView = new Uint8Array(combinedBuffer);
-
-            // ヘッダーを先頭に配置
-            combinedView.set(new Uint8Array(header), 0);
-            // データをヘッダーの後に配置
-            combinedView.set(new Uint8Array(data), header.byteLength);
-
-            // 統合されたデータを一度に送信（これが天才的な方法）
-            this.dataChannel.send(combinedBuffer);
+            channel.send(frame);
 
-            console.log(`🚀 天才的な統合バイナリ送信完了: ヘッダー8B + データ${this.formatFileSize(data.byteLength)}`);
+            console.log(`🚀 フレーム送信完了: ${this.formatFileSize(frame.byteLength)}`);
         } catch (error) {
-            console.error('❌ 統合バイナリ送信エラー:', error);
+            console.error('❌ フレーム送信エラー:', error);
 
             if (error instanceof Error && error.message.includes('send queue is full')) {
                 console.log('⚠️ 送信キュー満杯、バックプレッシャー制御発動');
-                await this.waitForBufferSpace();
                 // 再試行
-                await this.sendBinaryData(header, data);
+                await this.sendBinaryData(frame, await this.waitForBufferSpace());
+            } else if (channel !== this.dataChannel && channel.readyState !== 'open') {
+                // プールの1本が落ちた場合は別のチャネルで送り直す
+                console.log('🔀 データチャネル切断 - 別のチャネルで再送');
+                await this.sendBinaryData(frame, await this.waitForBufferSpace());
             } else {
                 throw error;
             }
@@ -580,26 +1354,159 @@ class WebRTCManagerV2 {
     }
 
     /**
-     * 転送速度調整
+     * 送信バッファ閾値を全チャネルに反映（閾値の半分まで減ったら送信を再開）
      */
-    adjustTransferSpeed() {
-        if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
-            return;
+    applyBufferThreshold() {
+        for (const channel of [this.dataChannel, ...this.dataChannels]) {
+            if (channel) channel.bufferedAmountLowThreshold = Math.floor(this.BUFFER_THRESHOLD / 2);
+        }
+    }
+
+    /**
+     * 全チャネルの送信バッファ合計
+     */
+    getBufferedAmount(): number {
+        return [this.dataChannel, ...this.dataChannels]
+            .reduce((sum, channel) => sum + (channel && channel.readyState === 'open' ? channel.bufferedAmount : 0), 0);
+    }
+
+    /**
+     * 適応制御開始（送信側）
+     */
+    startAdaptiveControl() {
+        if (!this.adaptiveEnabled || !this.pc || this.adaptiveTimer) return;
+
+        if (!this.adaptiveController) {
+            this.adaptiveController = new window.AdaptiveController(this.pc);
+        }
+        this.adaptiveController.maxMessageSize = this.negotiated?.maxMessageSize || 0;
+
+        this.adaptiveTimer = setInterval(async () => {
+            try {
+                await this.runAdaptiveControl();
+            } catch (error) {
+                console.warn('⚠️ 適応制御の統計取得に失敗:', error);
+            }
+        }, this.ADAPTIVE_INTERVAL);
+    }
+
+    /**
+     * 適応制御停止
+     */
+    stopAdaptiveControl() {
+        if (this.adaptiveTimer) {
+            clearInterval(this.adaptiveTimer);
+            this.adaptiveTimer = null;
         }
+    }
 
-        const bufferSize = this.dataChannel.bufferedAmount;
+    /**
+     * 統計を取得して同時送信数・バッファ閾値・次のファイルのサブチャンクサイズを更新
+     */
+    async runAdaptiveControl() {
+        if (!this.adaptiveController || !this.isTransferring || this.transferPaused) return;
+
+        const decision = await this.adaptiveController.sample({
+            subChunkSize: this.adaptiveChunkSize,
+            maxConcurrentSends: this.maxConcurrentSends,
+            bufferThreshold: this.BUFFER_THRESHOLD
+        }, this.getBufferedAmount());
 
-        if (bufferSize > this.BUFFER_THRESHOLD * 2) {
-            // バッファが溢れている場合、送信速度を落とす
-            this.sendSpeed = Math.min(this.sendSpeed * 1.5, 500);
-            this.adaptiveChunkSize = Math.max(this.adaptiveChunkSize / 2, 4096);
-        } else if (bufferSize < this.BUFFER_THRESHOLD / 4) {
-            // バッファに余裕がある場合、送信速度を上げる
-            this.sendSpeed = Math.max(this.sendSpeed * 0.8, 50);
-            this.adaptiveChunkSize = Math.min(this.adaptiveChunkSize * 1.2, 65536);
+        if (decision.reason !== '変更なし') {
+            console.log(`🎯 適応制御: ${decision.reason}`);
         }
 
-        console.log(`🎯 転送速度調整: 間隔${this.sendSpeed}ms, チャンク${this.adaptiveChunkSize}B`);
+        this.adaptiveChunkSize = decision.subChunkSize;
+        this.maxConcurrentSends = decision.maxConcurrentSends;
+        if (decision.bufferThreshold !== this.BUFFER_THRESHOLD) {
+            this.BUFFER_THRESHOLD = decision.bufferThreshold;
+            this.applyBufferThreshold();
+        }
+        this.lastAdaptiveDecision = decision;
+    }
+
+    /**
+     * ACK待ちのバイト数が送信ウィンドウに収まるまで待機
+     * 1つも飛んでいない場合はサイズに関係なく送る（ウィンドウより大きいチャンクでも止まらない）
+     */
+    async waitForAckWindow(size: number) {
+        while (this.isTransferring && !this.transferPaused && this.chunkManager) {
+            const unacked = this.chunkManager.getUnackedBytes();
+            if (unacked === 0 || unacked + size <= this.ACK_WINDOW_SIZE) return;
+
+            await this.waitForWindowChange();
+        }
+    }
+
+    /**
+     * ACK到着・タイムアウト・再開などでウィンドウの状態が変わるまで待機（最大1秒）
+     */
+    waitForWindowChange(): Promise<void> {
+        return new Promise<void>(resolve => {
+            const waiter = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                this.windowWaiters = this.windowWaiters.filter(w => w !== waiter);
+                resolve();
+            }, 1000);
+            this.windowWaiters.push(waiter);
+        });
+    }
+
+    /**
+     * ウィンドウ待ちの送信を再開
+     */
+    notifyWindowWaiters() {
+        const waiters = this.windowWaiters;
+        this.windowWaiters = [];
+        waiters.forEach(waiter => waiter());
+    }
+
+    /**
+     * ACKタイムアウト監視開始（送信側）
+     */
+    startAckTimeoutCheck() {
+        if (this.ackCheckTimer) return;
+        this.ackCheckTimer = setInterval(() => this.checkAckTimeouts(), 1000);
+    }
+
+    /**
+     * ACKタイムアウト監視停止
+     */
+    stopAckTimeoutCheck() {
+        if (this.ackCheckTimer) {
+            clearInterval(this.ackCheckTimer);
+            this.ackCheckTimer = null;
+        }
+    }
+
+    /**
+     * ACKが届かないサブチャンクを再送対象に戻す
+     * 送信バッファに溜まっている分はまだ相手に届いていないため、ACK待ちの量を直近のACK速度で捌ける時間を上乗せする
+     */
+    checkAckTimeouts() {
+        const manager = this.chunkManager;
+        if (!manager || !this.isTransferring || this.transferPaused) return;
+
+        // ACKが途絶えた末尾の欠落はビットマップ到着では検出できないため定期的に確認する
+        this.retransmitAckGaps();
+
+        const elapsed = (Date.now() - manager.startTime) / 1000;
+        const ackRate = elapsed > 0 ? manager.getProgress().bytesCompleted / elapsed : 0;
+        const drainTime = ackRate > 0 ? (manager.getUnackedBytes() / ackRate) * 1000 : 0;
+        const timeout = Math.max(this.ACK_TIMEOUT, 2 * drainTime);
+
+        const timedOut = manager.getTimedOutSubChunks(timeout);
+        if (timedOut.length === 0) return;
+
+        // 輻輳や一時停止でも起こるため再送上限には数えない（上限は送信・チェックサムの失敗のみ）
+        console.warn(`⏰ ACKタイムアウト: ${timedOut.length}個のサブチャンクを再送します (${Math.round(timeout / 1000)}秒)`);
+        for (const subChunk of timedOut) {
+            manager.markSubChunkLost(subChunk.id);
+        }
+        this.notifyWindowWaiters();
     }
 
     /**
@@ -635,23 +1542,18 @@ class WebRTCManagerV2 {
         if (this.isHost) {
             // ホスト側：DataChannelを再作成
             console.log('📡 ホストとしてDataChannelを再作成');
-            this.dataChannel = this.pc.createDataChannel('fileTransfer-v2', {
-                ordered: true,
-                maxRetransmits: 10,
-                maxPacketLifeTime: 3000 // 3秒
-            });
+            this.dataChannel = this.createTransferChannel(CONTROL_CHANNEL_LABEL);
             this.setupDataChannelEvents();
+            this.openDataChannelPool();
 
-            // 開くのを待機
+            // 開くのを待機（onopenは再開報告に使うためリスナーで待つ）
             await new Promise<void>((resolve, reject) => {
                 const timeout = setTimeout(() => reject(new Error('タイムアウト')), 10000);
-                if (this.dataChannel) {
-                    this.dataChannel.onopen = () => {
-                        clearTimeout(timeout);
-                        console.log('✅ DataChannel再接続完了');
-                        resolve();
-                    };
-                }
+                this.dataChannel!.addEventListener('open', () => {
+                    clearTimeout(timeout);
+                    console.log('✅ DataChannel再接続完了');
+                    resolve();
+                }, { once: true });
             });
         } else {
             // クライアント側：ホストのDataChannel接続を待つ
@@ -659,19 +1561,17 @@ class WebRTCManagerV2 {
             await new Promise<void>((resolve, reject) => {
                 const timeout = setTimeout(() => reject(new Error('タイムアウト')), 15000);
 
+                // チャネルの振り分けはondatachannel側で行うので、制御用が開くのを待つだけ
                 const onDataChannel = (event: RTCDataChannelEvent) => {
+                    if (event.channel.label !== CONTROL_CHANNEL_LABEL) return;
                     console.log('📡 ホストからのDataChannelを受信');
-                    this.dataChannel = event.channel;
-                    this.setupDataChannelEvents();
-
-                    if (this.dataChannel) {
-                        this.dataChannel.onopen = () => {
-                            clearTimeout(timeout);
-                            this.pc!.removeEventListener('datachannel', onDataChannel);
-                            console.log('✅ DataChannel接続完了');
-                            resolve();
-                        };
-                    }
+
+                    event.channel.addEventListener('open', () => {
+                        clearTimeout(timeout);
+                        this.pc!.removeEventListener('datachannel', onDataChannel);
+                        console.log('✅ DataChannel接続完了');
+                        resolve();
+                    }, { once: true });
                 };
 
                 this.pc!.addEventListener('datachannel', onDataChannel);
@@ -729,7 +1629,8 @@ class WebRTCManagerV2 {
                 console.log('🔄 DataChannel再接続が必要です');
                 await this.waitForDataChannelReady();
             }
-            this.dataChannel!.send(JSON.stringify(data));
+            const payload = new TextEncoder().encode(JSON.stringify(data));
+            this.dataChannel!.send(window.WireFormat.encodeFrame({ type: window.WireFormat.FrameType.CONTROL }, payload));
         } catch (error) {
             console.error('❌ メッセージ送信失敗:', error);
             // 送信失敗時はDataChannelをクリアして次回再接続
@@ -739,57 +1640,396 @@ class WebRTCManagerV2 {
     }
 
     /**
-     * 天才的なACK処理
+     * フレーム受信処理 - 形式・バージョンを確認して制御/データに振り分け
      */
-    async handleChunkAck(data: ChunkAckMessage) {
-        console.log(`✅ 天才的なACK受信: ${data.chunkId}`);
+    async handleFrame(raw: ArrayBuffer | string) {
+        if (this.protocolError) return;
 
-        // ACKに基づいて送信管理を更新
-        if (this.chunkManager) {
-            // チャンクマネージャーにACKを通知
-            this.chunkManager.markSubChunkCompleted(data.chunkId, 'ack-received');
+        if (typeof raw === 'string') {
+            this.handleProtocolError('旧形式（文字列）のメッセージを受信しました。相手のアプリを更新してください');
+            return;
+        }
 
-            // 進捗更新
-            await this.updateProgress();
+        let frame: WireFrame;
+        try {
+            frame = window.WireFormat.decodeFrame(raw);
+        } catch (error) {
+            this.handleProtocolError(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        if (frame.type === window.WireFormat.FrameType.CONTROL) {
+            await this.handleControlMessage(JSON.parse(new TextDecoder().decode(frame.payload)));
+        } else {
+            await this.handleDataFrame(frame);
         }
     }
 
     /**
-     * 天才的なNACK処理
+     * 自分の対応機能
      */
-    async handleChunkNack(data: ChunkNackMessage) {
-        console.log(`❌ 天才的なNACK受信: ${data.missingIndexes.length}個のチャンク再送要求`);
+    getLocalCapabilities(): PeerCapabilities {
+        const maxMessageSize = this.pc?.sctp?.maxMessageSize;
+        return {
+            maxMessageSize: maxMessageSize && Number.isFinite(maxMessageSize) ? maxMessageSize : 0,
+            compression: typeof CompressionStream !== 'undefined' ? ['gzip', 'deflate'] : [],
+            encryption: crypto.subtle ? ['AES-GCM-256'] : [],
+            hashAlgorithms: ['SHA-256'],
+            transferModes: ['reliable', 'unordered'],
+            resume: true
+        };
+    }
 
-        if (!this.chunkManager) return;
+    /**
+     * プロトコル確認・対応機能の送信
+     */
+    sendHello() {
+        this.sendMessage({ type: 'hello', protocolVersion: window.WireFormat.VERSION, capabilities: this.getLocalCapabilities() })
+            .catch(error => console.warn('⚠️ hello送信エラー:', error));
+    }
 
-        // 欠損チャンクの再送
-        for (const index of data.missingIndexes) {
-            // 対応するサブチャンクを検索して再送
-            const subChunk = this.findSubChunkByIndex(index);
-            if (subChunk) {
-                console.log(`🔄 天才的なチャンク再送: ${subChunk.id} (index: ${index})`);
-                await this.sendSubChunk(subChunk);
+    /**
+     * プロトコル確認・対応機能の受信
+     * 双方が対応する機能を決め、以降の転送設定はその範囲から選ぶ
+     */
+    handleHello(data: HelloMessage) {
+        if (data.protocolVersion !== window.WireFormat.VERSION) {
+            this.handleProtocolError(`プロトコルバージョンが一致しません（相手: v${data.protocolVersion} / こちら: v${window.WireFormat.VERSION}）`);
+            return;
+        }
+
+        const local = this.getLocalCapabilities();
+        const peer = data.capabilities;
+        const hashAlgorithm = local.hashAlgorithms.find(algorithm => peer.hashAlgorithms.includes(algorithm));
+        if (!hashAlgorithm) {
+            this.handleProtocolError(`共通のハッシュ方式がありません（相手: ${peer.hashAlgorithms.join(', ') || 'なし'}）`);
+            return;
+        }
+
+        const sizes = [local.maxMessageSize, peer.maxMessageSize].filter(size => size > 0);
+        this.peerCapabilities = peer;
+        this.negotiated = {
+            maxMessageSize: sizes.length > 0 ? Math.min(...sizes) : 0,
+            compression: local.compression.filter(format => peer.compression.includes(format)),
+            encryption: local.encryption.filter(method => peer.encryption.includes(method)),
+            hashAlgorithm: hashAlgorithm,
+            transferModes: local.transferModes.filter(mode => peer.transferModes.includes(mode)),
+            resume: local.resume && peer.resume
+        };
+        console.log(`🤝 プロトコル確認完了: v${data.protocolVersion}`, this.negotiated);
+
+        // 相手が対応しない配送方式ならデータ用チャネルを張り直す
+        if (this.isHost && !this.negotiated.transferModes.includes(this.transferMode)) {
+            this.setTransferMode('reliable');
+        }
+
+        // 共通の暗号方式があれば鍵交換を始める（ホストのコミットメントから）
+        if (this.negotiated.encryption.length > 0) {
+            if (this.isHost) {
+                this.sendKeyCommit();
             }
+        } else if (this.requireEncryption) {
+            this.handleProtocolError('相手がエンドツーエンド暗号化に対応していません');
+            return;
+        } else {
+            // 暗号化しない相手とは証明書だけで照合する
+            this.updateSas().catch(error => console.warn('⚠️ 確認コードの計算に失敗:', error));
         }
+
+        const waiters = this.handshakeWaiters;
+        this.handshakeWaiters = [];
+        waiters.forEach(waiter => waiter.resolve());
     }
 
     /**
-     * インデックスからサブチャンクを検索
+     * 相手のhelloを待機（届かなければ非対応の相手とみなす）
      */
-    findSubChunkByIndex(index: number): SubChunk | null {
-        if (!this.chunkManager) return null;
+    waitForHandshake(): Promise<void> {
+        if (this.protocolError) {
+            return Promise.reject(new Error(this.protocolError));
+        }
+        if (this.negotiated !== null) {
+            return Promise.resolve();
+        }
 
-        // 全メインチャンクを検索
-        for (const mainChunk of this.chunkManager.mainChunks) {
-            // 全サブチャンクを検索
-            for (const subChunk of mainChunk.subChunks) {
-                if (subChunk.index === index) {
-                    return subChunk;
-                }
+        return new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.handshakeWaiters = this.handshakeWaiters.filter(waiter => waiter !== entry);
+                reject(new Error('相手からプロトコル確認の応答がありません（非対応のクライアントの可能性があります）'));
+            }, this.HANDSHAKE_TIMEOUT);
+
+            const entry = {
+                resolve: () => { clearTimeout(timer); resolve(); },
+                reject: (error: Error) => { clearTimeout(timer); reject(error); }
+            };
+            this.handshakeWaiters.push(entry);
+        });
+    }
+
+    /**
+     * 暗号鍵を作り直す（DataChannel接続ごと）
+     */
+    resetEncryption() {
+        this.e2eReady = false;
+        this.e2eKeysReady = null;
+        this.peerKeyCommitment = null;
+        this.e2eSession = crypto.subtle ? window.E2ESession.create() : null;
+        this.e2eSession?.catch(error => console.error('❌ 暗号鍵の生成に失敗:', error));
+    }
+
+    /**
+     * 公開鍵のコミットメントを送信（ホスト側）
+     */
+    async sendKeyCommit() {
+        if (!this.e2eSession) return;
+
+        try {
+            const session = await this.e2eSession;
+            await this.sendMessage({ type: 'key-commit', commitment: await session.createCommitment() });
+        } catch (error) {
+            console.warn('⚠️ コミットメント送信エラー:', error);
+        }
+    }
+
+    /**
+     * ホストのコミットメントを受信 - 保持してから自分の公開鍵を送る（参加者側）
+     */
+    handleKeyCommit(data: KeyCommitMessage) {
+        if (this.isHost) {
+            console.warn('⚠️ 参加者からのコミットメントを無視');
+            return;
+        }
+
+        this.peerKeyCommitment = data.commitment;
+        this.sendKeyExchange();
+    }
+
+    /**
+     * 自分の公開鍵を送信
+     */
+    async sendKeyExchange() {
+        if (!this.e2eSession) return;
+
+        try {
+            const session = await this.e2eSession;
+            await this.sendMessage({ type: 'key-exchange', publicKey: session.publicKey });
+        } catch (error) {
+            console.warn('⚠️ 鍵交換メッセージ送信エラー:', error);
+        }
+    }
+
+    /**
+     * 相手の公開鍵を受信 - 共有鍵を導出して鍵確認値を返す
+     * ホストは参加者の公開鍵を受け取ってから自分の公開鍵を明かし、参加者はそれをコミットメントと照合する
+     * 鍵確認の受信処理が導出の完了を待てるよう、Promiseは同期的に保持する
+     */
+    handleKeyExchange(data: KeyExchangeMessage) {
+        if (!this.e2eSession) {
+            this.resetEncryption();
+        }
+        const sessionPromise = this.e2eSession!;
+        const commitment = this.peerKeyCommitment;
+
+        this.e2eKeysReady = (async () => {
+            const session = await sessionPromise;
+            if (this.isHost) {
+                await this.sendMessage({ type: 'key-exchange', publicKey: session.publicKey });
+            } else if (!commitment || !await session.verifyCommitment(data.publicKey, commitment)) {
+                throw new Error('ホストの公開鍵がコミットメントと一致しません');
+            }
+            await session.establish(data.publicKey, this.roomCode, this.isHost);
+            await this.sendMessage({ type: 'key-confirm', confirmation: await session.createConfirmation() });
+            await this.updateSas();
+        })();
+        this.e2eKeysReady.catch(error => this.handleProtocolError(`鍵交換に失敗しました: ${error instanceof Error ? error.message : error}`));
+    }
+
+    /**
+     * 相手の鍵確認値を検証 - 一致すれば暗号化転送を開始できる
+     */
+    async handleKeyConfirm(data: KeyConfirmMessage) {
+        if (!this.e2eKeysReady || !this.e2eSession) {
+            console.warn('⚠️ 鍵交換前の鍵確認を無視');
+            return;
+        }
+
+        try {
+            await this.e2eKeysReady;
+            const session = await this.e2eSession;
+            if (!await session.verifyConfirmation(data.confirmation)) {
+                this.handleProtocolError('鍵確認に失敗しました（ルームコードの不一致、または中継者による改ざんの可能性があります）');
+                return;
             }
+        } catch (error) {
+            return; // 鍵交換の失敗はhandleKeyExchange側で通知済み
+        }
+
+        console.log('🔐 エンドツーエンド暗号化を確立しました');
+        this.e2eReady = true;
+        const waiters = this.e2eWaiters;
+        this.e2eWaiters = [];
+        waiters.forEach(waiter => waiter.resolve());
+    }
+
+    /**
+     * 暗号鍵の確立を待機（暗号化しない相手なら即座に戻る）
+     */
+    waitForEncryption(): Promise<void> {
+        if (this.protocolError) {
+            return Promise.reject(new Error(this.protocolError));
         }
+        if (this.e2eReady || (this.negotiated && this.negotiated.encryption.length === 0)) {
+            return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.e2eWaiters = this.e2eWaiters.filter(waiter => waiter !== entry);
+                reject(new Error('暗号鍵の確立がタイムアウトしました'));
+            }, this.HANDSHAKE_TIMEOUT);
+
+            const entry = {
+                resolve: () => { clearTimeout(timer); resolve(); },
+                reject: (error: Error) => { clearTimeout(timer); reject(error); }
+            };
+            this.e2eWaiters.push(entry);
+        });
+    }
+
+    /**
+     * プロトコル不一致 - 以降のメッセージは処理せず、送受信中の転送を失敗させる
+     */
+    handleProtocolError(reason: string) {
+        if (this.protocolError) return;
+
+        console.error(`❌ プロトコル不一致: ${reason}`);
+        this.protocolError = reason;
+        this.updateStatus('error', `❌ 接続先と通信できません: ${reason}`);
 
-        return null;
+        const waiters = [...this.handshakeWaiters, ...this.e2eWaiters];
+        this.handshakeWaiters = [];
+        this.e2eWaiters = [];
+        waiters.forEach(waiter => waiter.reject(new Error(reason)));
+
+        // 相手はこちらのメッセージを解釈できないため、失敗の通知は送らない
+        if (this.isTransferring) {
+            this.transferError = reason;
+            this.isTransferring = false;
+            this.resumeTransfer();
+            this.notifyWindowWaiters();
+            if (this.fileResultWaiter) {
+                this.fileResultWaiter.reject(new Error(reason));
+                this.fileResultWaiter = null;
+            }
+        }
+        if (this.receiveManager && !this.receiveManager.completed) {
+            this.failReceive(reason, false);
+        }
+    }
+
+    /**
+     * 受信ビットマップ処理（送信側）
+     * 1のビットをACK済みにし、再開報告では0のビットを再送対象に戻す
+     */
+    async handleChunkBitmap(data: ChunkBitmapMessage) {
+        if (!this.chunkManager || data.fileId !== this.currentFileId) {
+            console.warn(`⚠️ 対象外のビットマップを無視: ${data.fileId}`);
+            return;
+        }
+
+        let newlyAcked = 0;
+        for (const entry of data.mainChunks) {
+            newlyAcked += this.chunkManager.applyAckBitmap(entry.index, decodeBitmap(entry.bitmap), data.resume);
+        }
+        console.log(`✅ ビットマップACK受信: ${data.mainChunks.length}メインチャンク / 新規ACK ${newlyAcked}個${data.resume ? '（再開報告）' : ''}`);
+
+        if (data.resume) {
+            // 最後の報告まで受け取ったら送信を再開
+            if (!data.resumeDone) return;
+            console.log(`📋 再開報告反映完了: ACK済み ${this.chunkManager.completedSubChunks.size}個`);
+            // 切断中に届かなかった可能性があるので、公開済みのchecksumも送り直す
+            this.swarmChecksumsPublished = 0;
+            this.resumeTransfer();
+        } else {
+            this.retransmitAckGaps();
+        }
+
+        // 空いたウィンドウで送信を再開
+        this.notifyWindowWaiters();
+        await this.updateProgress('send');
+    }
+
+    /**
+     * ビットマップ上の欠落を再送対象に戻す（非信頼チャネルのみ）
+     * 信頼チャネルではチャネル間の追い越しで一時的に欠けて見えるだけなので、ACKタイムアウトに任せる
+     */
+    retransmitAckGaps() {
+        if (!this.chunkManager || !this.isUnreliableTransport()) return;
+
+        const gaps = this.chunkManager.getAckGaps(this.GAP_GRACE, this.GAP_IDLE_TIMEOUT);
+        if (gaps.length === 0) return;
+
+        console.log(`🔄 欠落チャンクを再送: ${gaps.length}個`);
+        for (const subChunk of gaps) {
+            this.chunkManager.markSubChunkLost(subChunk.id);
+        }
+        this.notifyWindowWaiters();
+    }
+
+    /**
+     * ビットマップ定期送信を開始（受信側）
+     */
+    startAckReports() {
+        if (this.ackReportTimer) return;
+
+        this.ackReportTimer = setInterval(() => {
+            if (!this.receiveManager || this.receiveManager.completed) {
+                clearInterval(this.ackReportTimer!);
+                this.ackReportTimer = null;
+                return;
+            }
+            this.flushAckBitmaps().catch(error => console.warn('⚠️ ビットマップ送信エラー（次回再送）:', error));
+        }, this.ACK_REPORT_INTERVAL);
+    }
+
+    /**
+     * メインチャンクの受信ビットマップを作成
+     */
+    createMainChunkBitmap(manager: ReceiveManager, mainIndex: number): ChunkBitmapEntry {
+        const start = mainIndex * manager.subChunksPerMain;
+        const count = Math.max(0, Math.min(manager.subChunksPerMain, manager.totalSubChunks - start));
+        const bitmap = new Uint8Array(Math.ceil(count / 8));
+        for (let j = 0; j < count; j++) {
+            if (manager.completedChunks.has(start + j)) {
+                bitmap[j >> 3] |= 1 << (j & 7);
+            }
+        }
+        return { index: mainIndex, bitmap: encodeBitmap(bitmap) };
+    }
+
+    /**
+     * 前回以降に受信があったメインチャンクのビットマップを送信（受信側）
+     */
+    async flushAckBitmaps() {
+        const manager = this.receiveManager;
+        if (!manager || manager.dirtyMainChunks.size === 0 || this.transferPaused) return;
+
+        const dirty = Array.from(manager.dirtyMainChunks).sort((a, b) => a - b);
+        manager.dirtyMainChunks.clear();
+
+        try {
+            for (let i = 0; i < dirty.length; i += this.BITMAP_REPORT_BATCH) {
+                await this.sendMessage({
+                    type: 'chunk-bitmap',
+                    fileId: manager.fileId,
+                    mainChunks: dirty.slice(i, i + this.BITMAP_REPORT_BATCH).map(index => this.createMainChunkBitmap(manager, index))
+                });
+            }
+        } catch (error) {
+            // 送れなかった分は次回まとめて送る
+            dirty.forEach(index => manager.dirtyMainChunks.add(index));
+            throw error;
+        }
     }
 
     /**
@@ -797,55 +2037,171 @@ class WebRTCManagerV2 {
      */
     async handleControlMessage(data: ControlMessage) {
         switch (data.type) {
+            case 'hello':
+                this.handleHello(data);
+                break;
+            case 'key-commit':
+                this.handleKeyCommit(data);
+                break;
+            case 'key-exchange':
+                this.handleKeyExchange(data);
+                break;
+            case 'key-confirm':
+                await this.handleKeyConfirm(data);
+                break;
+            case 'batch-start':
+                this.handleBatchStart(data);
+                break;
+            case 'batch-end':
+                this.handleBatchEnd(data);
+                break;
             case 'file-start-v2':
                 await this.handleFileStart(data);
                 break;
+            case 'swarm-checksums':
+                this.handleSwarmChecksums(data);
+                break;
             case 'chunk-metadata':
                 await this.handleChunkMetadata(data);
                 break;
-            case 'chunk-ack':
-                // 天才的なACK受信処理（送信側）
-                console.log('✅ チャンクACK受信:', data.chunkId);
-                await this.handleChunkAck(data);
-                break;
-            case 'chunk-nack':
-                // 天才的なNACK受信処理（送信側）
-                console.log('❌ チャンクNACK受信:', data.missingIndexes);
-                await this.handleChunkNack(data);
+            case 'chunk-bitmap':
+                await this.handleChunkBitmap(data);
                 break;
             case 'transfer-complete':
-                await this.handleTransferComplete();
+                await this.handleTransferComplete(data);
+                break;
+            case 'file-received':
+                this.handleFileResult(data);
                 break;
             case 'retry-request':
                 await this.handleRetryRequest(data);
                 break;
+            case 'transfer-failed':
+                this.handleTransferFailed(data);
+                break;
+        }
+    }
+
+    /**
+     * ファイル開始処理（受信側）
+     */
+    async handleFileStart(data: FileStartV2Message) {
+        console.log(`📁 ファイル受信開始: ${data.filename} (${this.formatFileSize(data.filesize)})`);
+
+        this.updateStatus('receiving', `📁 ${data.filename} を受信中...`);
+
+        // 書き込み先はチャンクが届く前に準備を始め、書き込み時に待機する
+        const relativePath = data.relativePath || data.filename;
+        const sinkReady = this.sinkFactory
+            ? this.sinkFactory(data.filename, data.filesize, relativePath)
+            : window.createFileSink(data.filename, data.filesize, null, relativePath);
+
+        // インデックス配置型の受信管理（データ本体はシンクに書き込み保持しない）
+        this.receiveManager = {
+            fileId: data.fileId,
+            filename: data.filename,
+            relativePath: relativePath,
+            filesize: data.filesize,
+            expectedChunks: new Map(),
+            completedChunks: new Set(),
+            totalReceived: 0,
+            totalMainChunks: data.totalMainChunks,
+            totalSubChunks: data.totalSubChunks,
+            mainChunkSize: data.mainChunkSize,
+            subChunkSize: data.subChunkSize,
+            verifiedChecksums: new Map(),
+            failedChecks: 0,
+            completed: false,
+            result: null,
+            fileNumber: data.fileNumber,
+            orphanChunks: new Map(),
+            subChunksPerMain: Math.ceil(data.mainChunkSize / data.subChunkSize),
+            originalBytes: 0,
+            wireBytes: 0,
+            dirtyMainChunks: new Set(),
+            sinkReady: sinkReady,
+            swarmKey: null,
+            swarmChecksums: new Map(),
+            swarmPieceKey: null
+        };
+        const manager = this.receiveManager;
+
+        // 受信済みビットマップを定期的に送信側へ返す
+        this.startAckReports();
+
+        // ファイル受信開始を通知
+        if (this.onFileReceiveStart) {
+            this.onFileReceiveStart(data.filename, data.filesize, data.fileId);
+        }
+
+        // データ用チャネル経由でファイル開始より先に届いていたバイナリを処理
+        const earlyChunks = this.earlyChunks;
+        this.earlyChunks = [];
+        for (const frame of earlyChunks) {
+            await this.handleDataFrame(frame);
+        }
+
+        // 保持しきれなかった分はACKタイムアウトを待たずに再送を求める
+        const subChunksPerMain = Math.ceil(data.mainChunkSize / data.subChunkSize);
+        const dropped = this.droppedEarlyChunks.filter(entry => entry.fileNumber === data.fileNumber);
+        this.droppedEarlyChunks = [];
+        for (const { chunkIndex } of dropped) {
+            await this.sendMessage({
+                type: 'retry-request',
+                chunkId: `main_${Math.floor(chunkIndex / subChunksPerMain)}_sub_${chunkIndex % subChunksPerMain}`,
+                lost: true
+            });
+        }
+
+        // スウォームのピース鍵を取り出せたら、他の受信者との交換を始める
+        if (data.swarm) {
+            const pieceKey = await this.unwrapSwarmPieceKey(data);
+            if (pieceKey && this.receiveManager === manager && !manager.completed) {
+                manager.swarmPieceKey = pieceKey;
+                manager.swarmKey = `${data.swarm.swarmId}/${data.subChunkSize}`;
+            }
         }
     }
 
     /**
-     * ファイル開始処理（受信側）
+     * バッチ開始処理（受信側）
      */
-    async handleFileStart(data: FileStartV2Message) {
-        console.log(`📁 ファイル受信開始: ${data.filename} (${this.formatFileSize(data.filesize)})`);
+    handleBatchStart(data: BatchStartMessage) {
+        console.log(`📦 バッチ受信開始: ${data.batchId} (${data.files.length}ファイル)`);
 
-        this.updateStatus('receiving', `📁 ${data.filename} を受信中...`);
+        if (this.onBatchStart) {
+            this.onBatchStart(data.batchId, data.files);
+        }
+    }
 
-        // シンプルな受信管理
-        this.receiveManager = {
-            filename: data.filename,
-            filesize: data.filesize,
-            receivedChunks: new Map(),
-            expectedChunks: new Map(),
-            completedChunks: new Set(),
-            totalReceived: 0,
-            totalMainChunks: 1,
-            totalSubChunks: Math.ceil(data.filesize / (1024 * 1024))
-        };
+    /**
+     * バッチ終了処理（受信側）
+     */
+    handleBatchEnd(data: BatchEndMessage) {
+        console.log(`📦 バッチ受信終了: ${data.batchId}`);
 
-        // ファイル受信開始を通知
-        if (this.onFileReceiveStart) {
-            this.onFileReceiveStart(data.filename, data.filesize);
+        if (this.onBatchEnd) {
+            this.onBatchEnd(data.batchId);
+        }
+    }
+
+    /**
+     * スウォーム配布のchecksum受信処理（受信側）
+     * 他の受信者から届いたサブチャンクは、このchecksumと一致したものだけ取り込む
+     */
+    handleSwarmChecksums(data: SwarmChecksumsMessage) {
+        const manager = this.receiveManager;
+        if (!manager || manager.fileId !== data.fileId) {
+            console.warn(`⚠️ 対象外のスウォームchecksumを無視: ${data.fileId}`);
+            return;
         }
+
+        const base = data.mainIndex * manager.subChunksPerMain;
+        data.checksums.slice(0, manager.subChunksPerMain).forEach((checksum, j) => {
+            if (base + j < manager.totalSubChunks) {
+                manager.swarmChecksums.set(base + j, checksum);
+            }
+        });
     }
 
     /**
@@ -860,43 +2216,123 @@ class WebRTCManagerV2 {
             return;
         }
 
-        this.receiveManager.expectedChunks.set(data.chunkId, {
+        // バイナリヘッダーのインデックスと対応付けるためindexをキーにする
+        this.receiveManager.expectedChunks.set(data.index, {
             id: data.chunkId,
             mainChunkId: data.mainChunkId,
             index: data.index,
             checksum: data.checksum,
             received: false
         });
+
+        // データ用チャネル経由で先に届いていたバイナリがあれば検証する
+        const orphan = this.receiveManager.orphanChunks.get(data.index);
+        if (orphan) {
+            this.receiveManager.orphanChunks.delete(data.index);
+            await this.processChunkData(orphan);
+        }
     }
 
     /**
-     * ドキュメント通りの直接バイナリ受信 - シンプルイズベスト！
+     * データフレーム受信 - ヘッダーのオフセットで配置位置を決定
      */
-    async handleDirectBinaryData(data: ArrayBuffer) {
-        if (!this.receiveManager) return;
+    async handleDataFrame(frame: WireFrame) {
+        // 受信中のファイルが無ければ次のファイル開始まで保持（制御用チャネルより先に届くことがある）
+        if (!this.receiveManager || this.receiveManager.completed) {
+            // 受信を終えたファイルへの遅れて届いた再送は、次のファイルの枠を埋めないよう捨てる
+            if (frame.fileNumber <= this.lastFinishedFileNumber) {
+                console.log(`🗑️ 受信済みファイルのデータフレームを破棄: ファイル番号 ${frame.fileNumber}`);
+                return;
+            }
+            if (this.earlyChunks.length < MAX_EARLY_CHUNKS) {
+                this.earlyChunks.push(frame);
+            } else {
+                console.warn(`⚠️ ファイル開始前のフレームを保持しきれません: index ${frame.chunkIndex}（開始後に再送要求）`);
+                this.droppedEarlyChunks.push({ fileNumber: frame.fileNumber, chunkIndex: frame.chunkIndex });
+            }
+            return;
+        }
 
-        // ドキュメント通り：データをそのまま追加！ヘッダー不要！インデックス不要！
-        this.receiveManager.receivedChunks.set(`chunk_${this.receiveManager.receivedChunks.size}`, data);
-        this.receiveManager.totalReceived += data.byteLength;
+        const manager = this.receiveManager;
+        if (frame.fileNumber !== manager.fileNumber) {
+            console.warn(`⚠️ 別ファイルのデータフレームを破棄: ファイル番号 ${frame.fileNumber}`);
+            return;
+        }
 
-        console.log(`🔥 ドキュメント通りの直接受信: ${this.formatFileSize(data.byteLength)}`);
+        // 暗号化フレームは復号する（鍵交換済みの相手からの平文は改ざんとみなして捨てる）
+        const wireSize = frame.payload.byteLength;
+        if (frame.flags & window.WireFormat.FRAME_FLAG_ENCRYPTED) {
+            const session = this.e2eSession ? await this.e2eSession : null;
+            if (!session || !session.ready) {
+                console.warn(`⚠️ 暗号鍵が未確立のためチャンク index ${frame.chunkIndex} を破棄します`);
+                return;
+            }
+            try {
+                const additionalData = this.createFrameAad(frame.fileNumber, frame.chunkIndex, frame.offset, frame.flags);
+                frame = { ...frame, payload: await session.decrypt(frame.payload, additionalData) };
+            } catch (error) {
+                console.warn(`⚠️ チャンク index ${frame.chunkIndex} の復号に失敗したため破棄します（鍵の更新前に送られたか改ざん）`);
+                manager.failedChecks++;
+                return;
+            }
+        } else if (this.negotiated?.encryption.length) {
+            console.warn(`⚠️ 暗号化されていないチャンク index ${frame.chunkIndex} を破棄します`);
+            return;
+        }
 
-        // 進捗更新
-        const progress = (this.receiveManager.totalReceived / this.receiveManager.filesize) * 100;
-        if (this.onProgress) this.onProgress(progress);
+        // 圧縮フレームは展開してから扱う（offset・チェックサムは圧縮前のデータ基準）
+        const format: ChunkCompressionFormat | null =
+            frame.flags & window.WireFormat.FRAME_FLAG_GZIP ? 'gzip'
+            : frame.flags & window.WireFormat.FRAME_FLAG_DEFLATE ? 'deflate'
+            : null;
+        if (format) {
+            try {
+                frame = { ...frame, payload: await window.decompressChunk(frame.payload, format, manager.subChunkSize) };
+            } catch (error) {
+                console.warn(`⚠️ チャンク index ${frame.chunkIndex} の展開に失敗したため破棄します:`, error);
+                manager.failedChecks++;
+                return;
+            }
+        }
 
-        // ドキュメント通り：ファイル受信完了検出
-        if (this.receiveManager.totalReceived >= this.receiveManager.filesize) {
-            console.log('🎉 ドキュメント通りのファイル受信完了！');
-            await this.reconstructReceivedFileSimple();
+        const size = frame.payload.byteLength;
+        if (frame.chunkIndex >= manager.totalSubChunks || frame.offset + size > manager.filesize) {
+            console.warn(`⚠️ 不正なチャンクを破棄: index ${frame.chunkIndex}, offset ${frame.offset}, size ${size}`);
+            return;
         }
+
+        console.log(`📥 チャンク受信: index ${frame.chunkIndex} (${this.formatFileSize(size)})${format ? ` - ${format} ${this.formatFileSize(wireSize)}` : ''}${frame.flags & window.WireFormat.FRAME_FLAG_RETRANSMIT ? ' - 再送' : ''}`);
+        manager.originalBytes += size;
+        manager.wireBytes += wireSize;
+
+        await this.processChunkData(frame);
     }
 
     /**
-     * チャンクデータ処理
+     * チャンクデータ処理 - チェックサム検証後にシンクへ書き込み
      */
-    async processChunkData(chunkId: string, expectedChecksum: string, chunkData: ArrayBuffer) {
-        if (!this.receiveManager) return;
+    async processChunkData(frame: WireFrame) {
+        // 非同期処理中に次のファイルが始まっても取り違えないよう固定する
+        const manager = this.receiveManager;
+        if (!manager) return;
+
+        const index = frame.chunkIndex;
+        const chunkData = frame.payload;
+
+        const expected = manager.expectedChunks.get(index);
+        if (!expected) {
+            // メタデータは制御用チャネルで後から届くので、それまで保持する
+            if (manager.orphanChunks.size < MAX_EARLY_CHUNKS) {
+                console.log(`⏳ チャンク index ${index} のメタデータ待ち`);
+                manager.orphanChunks.set(index, frame);
+            } else {
+                console.error(`❌ チャンク index ${index} のメタデータがありません`);
+                manager.failedChecks++;
+            }
+            return;
+        }
+        const chunkId = expected.id;
+        const expectedChecksum = expected.checksum;
 
         // チャンクの整合性チェック
         const receivedChecksum = await this.calculateChecksum(chunkData);
@@ -904,23 +2340,34 @@ class WebRTCManagerV2 {
         console.log(`期待: ${expectedChecksum}`);
         console.log(`実際: ${receivedChecksum}`);
 
-        if (receivedChecksum === expectedChecksum) {
+        if (await this.protectChecksum(receivedChecksum) === expectedChecksum) {
             console.log(`✅ チャンク ${chunkId} の整合性確認完了`);
-            this.receiveManager.completedChunks.add(chunkId);
 
-            // チャンクデータを一時的に保存
-            this.receiveManager.receivedChunks.set(chunkId, chunkData);
-            this.receiveManager.totalReceived += chunkData.byteLength;
+            // オフセット位置に書き込み（再送による重複は同じ位置への上書き）
+            const sink = await manager.sinkReady;
+            await sink.write(frame.offset, chunkData);
 
-            // ACK送信
-            await this.sendMessage({
-                type: 'chunk-ack',
-                chunkId: chunkId,
-                success: true
-            });
+            expected.received = true;
+            if (!manager.completedChunks.has(index)) {
+                manager.totalReceived += chunkData.byteLength;
+            }
+            manager.completedChunks.add(index);
+            manager.verifiedChecksums.set(index, receivedChecksum);
+
+            // ACKはビットマップでまとめて返す（全て揃ったら送信側が完了通知へ進めるよう即時送信）
+            manager.dirtyMainChunks.add(Math.floor(index / manager.subChunksPerMain));
+            if (manager.completedChunks.size >= manager.totalSubChunks) {
+                await this.flushAckBitmaps();
+            }
+
+            // スウォーム配布では他の受信者へ提供できるよう通知する
+            if (manager.swarmKey && this.onSwarmChunk) {
+                this.onSwarmChunk(manager.swarmKey, index, chunkData);
+            }
         } else {
             console.error(`❌ チャンク ${chunkId} のチェックサム不一致`);
             console.error(`期待: ${expectedChecksum}, 実際: ${receivedChecksum}`);
+            manager.failedChecks++;
             // 再送要求
             await this.sendMessage({
                 type: 'retry-request',
@@ -930,113 +2377,219 @@ class WebRTCManagerV2 {
         }
 
         // 進捗更新
-        const progress = (this.receiveManager.totalReceived / this.receiveManager.filesize) * 100;
-        this.updateProgress(progress);
+        await this.updateProgress('receive');
+    }
+
+    /**
+     * スウォーム交換の対象となる受信中ファイルの状況
+     */
+    getSwarmReceive(): SwarmReceiveState | null {
+        const manager = this.receiveManager;
+        if (!manager || !manager.swarmKey || !manager.swarmPieceKey || manager.completed) return null;
+
+        return {
+            swarmKey: manager.swarmKey,
+            totalSubChunks: manager.totalSubChunks,
+            completedChunks: manager.completedChunks,
+            checksums: manager.swarmChecksums,
+            pieceKey: manager.swarmPieceKey
+        };
+    }
+
+    /**
+     * 他の受信者から届いたサブチャンクを取り込む
+     * 届けた受信者を信用せず、送信側が公開したchecksumと一致したものだけ書き込む
+     */
+    async acceptSwarmChunk(swarmKey: string, index: number, data: ArrayBuffer): Promise<SwarmChunkResult> {
+        const manager = this.receiveManager;
+        if (!manager || manager.completed || manager.swarmKey !== swarmKey) return 'skipped';
+        if (index < 0 || index >= manager.totalSubChunks || manager.completedChunks.has(index)) return 'skipped';
+
+        // 送信側のchecksumがまだ届いていなければ検証できないので取り込まない
+        const expectedChecksum = manager.swarmChecksums.get(index);
+        if (!expectedChecksum) return 'skipped';
+
+        const mainIndex = Math.floor(index / manager.subChunksPerMain);
+        const offset = mainIndex * manager.mainChunkSize + (index % manager.subChunksPerMain) * manager.subChunkSize;
+        const expectedSize = Math.min(manager.subChunkSize, manager.filesize - offset, (mainIndex + 1) * manager.mainChunkSize - offset);
+        if (data.byteLength !== expectedSize) {
+            console.warn(`⚠️ スウォームチャンクのサイズ不一致: index ${index} (${data.byteLength} / ${expectedSize})`);
+            return 'invalid';
+        }
+
+        const receivedChecksum = await this.calculateChecksum(data);
+        if (await this.protectChecksum(receivedChecksum) !== expectedChecksum) {
+            console.warn(`⚠️ スウォームチャンクのチェックサム不一致: index ${index}`);
+            return 'invalid';
+        }
 
-        // 転送完了チェック
-        if (this.receiveManager.totalReceived >= this.receiveManager.filesize) {
-            await this.assembleAndSaveFile();
+        const sink = await manager.sinkReady;
+        // 書き込み待ちの間に送信側から届いていれば二重に数えない
+        if (this.receiveManager !== manager || manager.completedChunks.has(index)) return 'skipped';
+        await sink.write(offset, data);
+
+        const expected = manager.expectedChunks.get(index);
+        if (expected) expected.received = true;
+        manager.totalReceived += data.byteLength;
+        manager.completedChunks.add(index);
+        manager.verifiedChecksums.set(index, receivedChecksum);
+
+        // ビットマップのACKで送信側にも伝え、同じチャンクを送らせない
+        manager.dirtyMainChunks.add(mainIndex);
+        if (manager.completedChunks.size >= manager.totalSubChunks) {
+            await this.flushAckBitmaps();
         }
+
+        await this.updateProgress('receive');
+        return 'accepted';
     }
 
     /**
-     * ファイル結合と保存
+     * ファイル保存 - シンクを閉じて確定
      */
     async assembleAndSaveFile() {
-        if (!this.receiveManager) return;
+        const manager = this.receiveManager;
+        if (!manager) return;
 
         try {
-            console.log('🔧 ファイル結合開始...');
-
-            // チャンクを正しい順序でソート
-            const sortedChunks = Array.from(this.receiveManager!.receivedChunks.entries() as [string, ArrayBuffer][])
-                .sort((a, b) => {
-                    // chunkIdを数値として比較
-                    const aNum = parseInt(a[0].split('_sub_')[1]);
-                    const bNum = parseInt(b[0].split('_sub_')[1]);
-                    return aNum - bNum;
-                });
+            console.log('🔧 ファイル確定開始...');
 
-            // 総ファイルサイズでArrayBufferを確保
-            const totalSize = this.receiveManager!.filesize;
-            const combinedBuffer = new ArrayBuffer(totalSize);
-            const combinedView = new Uint8Array(combinedBuffer);
-
-            let offset = 0;
-            for (const [chunkId, chunkData] of sortedChunks) {
-                const chunkView = new Uint8Array(chunkData);
-                combinedView.set(chunkView, offset);
-                offset += chunkView.length;
-                console.log(`📦 チャンク ${chunkId} を結合 (位置: ${offset})`);
-            }
+            const sink = await manager.sinkReady;
+            const blob = await sink.close();
 
-            console.log('✅ ファイル結合完了');
+            console.log(`✅ ファイル確定完了 (${sink.kind})`);
+            manager.completed = true;
+            this.lastFinishedFileNumber = Math.max(this.lastFinishedFileNumber, manager.fileNumber);
 
             // ファイルオブジェクトを作成してコールバック実行
             if (this.onFileReceived) {
                 this.onFileReceived({
-                    name: this.receiveManager!.filename,
-                    size: this.receiveManager!.filesize,
-                    data: combinedBuffer
+                    fileId: manager.fileId,
+                    name: manager.filename,
+                    relativePath: manager.relativePath,
+                    size: manager.filesize,
+                    blob: blob,
+                    savedToDisk: sink.kind === 'directory',
+                    release: () => sink.release()
                 });
             }
 
+            this.updateStatus('completed', `✅ ${manager.filename} 受信完了！`);
+            await this.sendFileResult(manager, { type: 'file-received', fileId: manager.fileId, success: true });
+
         } catch (error) {
-            console.error('❌ ファイル結合エラー:', error);
-            this.updateStatus('error', '❌ ファイル結合エラー');
+            console.error('❌ ファイル確定エラー:', error);
+            this.failReceive('ファイル保存エラー');
         }
     }
 
     /**
-     * ドキュメント通りのシンプルファイル再構築
+     * 最終判定を送信側へ返す（再接続時の再送用に保持）
      */
-    async reconstructReceivedFileSimple() {
-        if (!this.receiveManager) return;
+    async sendFileResult(manager: ReceiveManager, result: FileReceivedMessage) {
+        manager.result = result;
+        try {
+            await this.sendMessage(result);
+        } catch (error) {
+            console.warn('⚠️ file-received送信エラー（再接続時に再送）:', error);
+        }
+    }
 
-        console.log('🔧 ドキュメント通りのシンプルファイル再構築開始...');
+    /**
+     * 未受信のサブチャンクインデックスを取得
+     */
+    getMissingIndexes(): number[] {
+        if (!this.receiveManager) return [];
 
-        try {
-            // 総ファイルサイズでArrayBufferを確保
-            const totalSize = this.receiveManager.filesize;
-            const combinedBuffer = new ArrayBuffer(totalSize);
-            const combinedView = new Uint8Array(combinedBuffer);
-
-            let offset = 0;
-            // ドキュメント通り：受信した順番で結合！インデックス不要！
-            for (const [chunkId, chunkData] of this.receiveManager.receivedChunks) {
-                const chunkView = new Uint8Array(chunkData);
-                combinedView.set(chunkView, offset);
-                offset += chunkView.length;
-                console.log(`📦 ドキュメント通りのチャンク結合: ${chunkId}, 位置 ${offset}`);
+        const missing: number[] = [];
+        for (let i = 0; i < this.receiveManager.totalSubChunks; i++) {
+            if (!this.receiveManager.completedChunks.has(i)) {
+                missing.push(i);
             }
+        }
+        return missing;
+    }
 
-            console.log('✅ ドキュメント通りのファイル再構築完了！');
+    /**
+     * 転送完了処理
+     * 受信中のファイル宛てでなければ無視する（別ファイルや完了済みファイルを確定させない）
+     */
+    async handleTransferComplete(data: TransferCompleteMessage) {
+        const manager = this.receiveManager;
+        if (!manager || manager.fileId !== data.fileId || manager.completed) {
+            console.warn(`⚠️ 対象外の転送完了通知を無視: ${data.fileId}`);
+            return;
+        }
 
-            // ファイルオブジェクトを作成してコールバック実行
-            if (this.onFileReceived) {
-                this.onFileReceived({
-                    name: this.receiveManager.filename,
-                    size: this.receiveManager.filesize,
-                    data: combinedBuffer
-                });
-            }
+        console.log('✅ 転送完了');
 
-            this.updateStatus('completed', `✅ ${this.receiveManager.filename} 受信完了！`);
+        const missing = this.getMissingIndexes();
+        if (missing.length > 0) {
+            console.error(`❌ 未受信チャンクがあります: ${missing.length}個`);
+            this.failReceive(`欠損 ${missing.length}チャンク`);
+            return;
+        }
 
-        } catch (error) {
-            console.error('❌ ドキュメント通りのファイル再構築エラー:', error);
-            this.updateStatus('error', '❌ ファイル再構築エラー');
+        // ファイル全体の最終検証（検証済みchecksumの一覧を照合する。シンクの中身は読み直さない）
+        const fileDigest = await this.protectChecksum(await this.calculateReceivedDigest());
+        console.log(`🔏 ダイジェスト検証: 期待 ${data.fileDigest} / 実際 ${fileDigest}`);
+        if (fileDigest !== data.fileDigest) {
+            console.error('❌ ファイルダイジェスト不一致');
+            this.failReceive('ファイル全体の整合性検証に失敗しました');
+            return;
+        }
+
+        // 全インデックスが揃い検証が通ってから結合する
+        await this.assembleAndSaveFile();
+    }
+
+    /**
+     * 受信済みサブチャンクのchecksumからファイルダイジェストを計算（送信側と同じ2段構成）
+     * 各checksumは取り込み時にデータと照合済みなので、ここで保証されるのはchecksum一覧の正しさ
+     * （欠落・差し替えがないこと）まで。シンクへの書き込み結果はハッシュし直さない
+     */
+    async calculateReceivedDigest(): Promise<string> {
+        const encoder = new TextEncoder();
+        const { totalSubChunks, mainChunkSize, subChunkSize, verifiedChecksums } = this.receiveManager!;
+        const subsPerMain = Math.ceil(mainChunkSize / subChunkSize);
+
+        const mainChecksums: string[] = [];
+        for (let start = 0; start < totalSubChunks; start += subsPerMain) {
+            let leaves = '';
+            for (let i = start; i < Math.min(start + subsPerMain, totalSubChunks); i++) {
+                leaves += verifiedChecksums.get(i) || '';
+            }
+            mainChecksums.push(await this.calculateChecksum(encoder.encode(leaves).buffer as ArrayBuffer));
         }
+
+        return await this.calculateChecksum(encoder.encode(mainChecksums.join('')).buffer as ArrayBuffer);
     }
 
     /**
-     * 転送完了処理
+     * 受信失敗処理 - ダウンロードせずに失敗として通知
+     * 送信側起因の失敗（transfer-failed）では送信側へ判定を返さない
      */
-    async handleTransferComplete() {
-        console.log('✅ 転送完了');
-        this.updateStatus('completed', '✅ 転送完了！');
+    failReceive(reason: string, notifySender: boolean = true) {
+        if (!this.receiveManager) return;
+
+        const manager = this.receiveManager;
+        const { fileId, filename, filesize, relativePath, sinkReady } = manager;
+        this.updateStatus('error', `❌ ${filename} の受信に失敗しました: ${reason}`);
+
+        // 書き込み途中のデータは破棄
+        sinkReady
+            .then(sink => sink.abort())
+            .catch(error => console.warn('⚠️ 受信データの破棄に失敗:', error));
 
-        // ファイル結合はチャンクデータ受信完了時に自動実行される
+        if (this.onFileFailed) {
+            this.onFileFailed({ fileId, name: filename, size: filesize, relativePath }, reason);
+        }
+        this.receiveManager = null;
+        this.lastFinishedFileNumber = Math.max(this.lastFinishedFileNumber, manager.fileNumber);
+
+        if (notifySender) {
+            this.sendFileResult(manager, { type: 'file-received', fileId, success: false, reason });
+        }
     }
 
     /**
@@ -1044,65 +2597,256 @@ class WebRTCManagerV2 {
      */
     async handleRetryRequest(data: RetryRequestMessage) {
         console.log(`🔄 再送要求受信: ${data.chunkId}`);
-        // 再送要求の処理を実装
-        // TODO: 該当チャンクの再送ロジック
+
+        const subChunk = this.chunkManager?.findSubChunk(data.chunkId);
+        if (!subChunk) {
+            console.warn(`⚠️ 再送対象のサブチャンクが見つかりません: ${data.chunkId}`);
+            return;
+        }
+
+        // 受信側で破棄されただけなら再送対象に戻し、送信ループに任せる
+        if (data.lost) {
+            this.chunkManager!.markSubChunkLost(subChunk.id);
+            this.notifyWindowWaiters();
+            return;
+        }
+
+        // 送信済み扱いを取り消し、再送回数を記録
+        this.chunkManager!.markSubChunkFailed(subChunk.id);
+
+        // 送信エラーで再送対象に残った場合も上限まで繰り返す
+        while (this.isTransferring && subChunk.status !== 'failed' && this.chunkManager!.failedSubChunks.has(subChunk.id) && !this.transferPaused) {
+            console.log(`🔄 再送実行: ${subChunk.id} (${subChunk.retryCount}/${this.maxRetries})`);
+            await this.sendSubChunk(subChunk);
+        }
+
+        if (subChunk.status === 'failed') {
+            await this.failTransfer(`サブチャンク ${subChunk.id} の再送が上限(${this.maxRetries}回)に達しました`);
+        }
+    }
+
+    /**
+     * 転送を失敗として終了（送信側）
+     */
+    async failTransfer(reason: string) {
+        console.error(`❌ 転送失敗: ${reason}`);
+        this.isTransferring = false;
+        this.transferError = reason;
+        this.updateStatus('error', `❌ 転送失敗: ${reason}`);
+
+        // 再開待ちのループを終了させる
+        this.resumeTransfer();
+
+        // 受信側にも失敗を通知
+        try {
+            await this.sendMessage({ type: 'transfer-failed', fileId: this.currentFileId || '', reason: reason });
+        } catch (error) {
+            console.warn('⚠️ transfer-failed送信エラー（無視）:', error);
+        }
+
+        this.notifyWindowWaiters();
+        if (this.fileResultWaiter) {
+            this.fileResultWaiter.reject(new Error(reason));
+            this.fileResultWaiter = null;
+        }
+    }
+
+    /**
+     * 転送失敗通知処理（受信側）
+     */
+    handleTransferFailed(data: TransferFailedMessage) {
+        console.error(`❌ 送信側で転送失敗: ${data.reason}`);
+        this.failReceive(data.reason, false);
     }
 
     /**
      * 接続切断処理
      */
     handleDisconnection() {
-        if (this.isTransferring) {
+        this.wasInterrupted = true;
+
+        if (this.isTransferring && this.negotiated && !this.negotiated.resume) {
+            // 相手が再開に対応していなければ待たずに失敗とする
+            console.log('⚠️ 転送中に接続が切断されました（再開非対応）');
+            this.transferError = '接続が切断されました（相手が転送の再開に対応していません）';
+            this.isTransferring = false;
+            this.notifyWindowWaiters();
+            if (this.fileResultWaiter) {
+                this.fileResultWaiter.reject(new Error(this.transferError));
+                this.fileResultWaiter = null;
+            }
+        } else if (this.isTransferring) {
             console.log('⚠️ 転送中に接続が切断されました');
-            this.updateStatus('interrupted', '⚠️ 転送が中断されました');
-            // TODO: 再接続と再開処理
+            this.pauseTransfer();
+        }
+
+        // 送受信は同時に行われることがあるため、受信側の中断も別に扱う
+        if (this.receiveManager && !this.receiveManager.completed) {
+            console.log('⚠️ 受信中に接続が切断されました');
+            this.updateStatus('interrupted', '⚠️ 受信が中断されました - 再接続を待機中...');
+        }
+    }
+
+    /**
+     * 接続回復処理
+     */
+    handleReconnection() {
+        if (!this.wasInterrupted) return;
+        this.wasInterrupted = false;
+
+        console.log('🔄 接続回復');
+        if (!this.dataChannel || this.dataChannel.readyState === 'closed') {
+            // チャンネルも失われていれば作り直す（開いた時点で再開報告が送られる）
+            this.recoverDataChannel();
+        } else if (this.dataChannel.readyState === 'open') {
+            this.sendResumeReport();
+        }
+    }
+
+    /**
+     * DataChannel復旧（ホストのみ作成可能）
+     */
+    async recoverDataChannel() {
+        if (!this.isHost || !this.pc || this.pc.connectionState !== 'connected') return;
+
+        try {
+            await this.recreateDataChannel();
+        } catch (error) {
+            console.error('❌ DataChannel復旧失敗:', error);
+        }
+    }
+
+    /**
+     * 転送を一時停止（送信側）
+     */
+    pauseTransfer() {
+        if (!this.isTransferring || this.transferPaused) return;
+
+        this.transferPaused = true;
+        this.updateStatus('interrupted', '⚠️ 転送が中断されました - 再接続を待機中...');
+
+        this.resumeTimer = setTimeout(() => {
+            this.failTransfer('再接続がタイムアウトしました');
+        }, this.RESUME_TIMEOUT);
+    }
+
+    /**
+     * 転送を再開（送信側）
+     */
+    resumeTransfer() {
+        if (this.resumeTimer) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = null;
+        }
+
+        if (this.transferPaused) {
+            this.transferPaused = false;
+            if (this.isTransferring) {
+                this.updateStatus('sending', '▶️ 中断箇所から転送を再開します');
+            }
+        }
+
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    /**
+     * 再開まで待機
+     */
+    waitForResume(): Promise<void> {
+        if (!this.transferPaused) return Promise.resolve();
+
+        return new Promise<void>((resolve) => {
+            this.resumeWaiters.push(resolve);
+        });
+    }
+
+    /**
+     * 保持状況を報告（受信側）
+     * 全メインチャンクのビットマップを分割して送り、送信側は最後のメッセージを受けて再開する
+     */
+    async sendResumeReport() {
+        if (!this.receiveManager) return;
+
+        // 受信完了済みなら最終判定だけを送り直す
+        if (this.receiveManager.completed) {
+            if (this.receiveManager.result) {
+                await this.sendFileResult(this.receiveManager, this.receiveManager.result);
+            }
+            return;
+        }
+
+        const manager = this.receiveManager;
+        const totalMain: number = manager.totalMainChunks;
+        console.log(`📋 再開報告送信: ${manager.completedChunks.size}/${manager.totalSubChunks} 受信済み`);
+
+        try {
+            // 全体を報告するので未送信分の差分は不要
+            manager.dirtyMainChunks.clear();
+
+            let start = 0;
+            do {
+                const end = Math.min(start + this.BITMAP_REPORT_BATCH, totalMain);
+                const mainChunks: ChunkBitmapEntry[] = [];
+                for (let i = start; i < end; i++) {
+                    mainChunks.push(this.createMainChunkBitmap(manager, i));
+                }
+
+                await this.sendMessage({
+                    type: 'chunk-bitmap',
+                    fileId: manager.fileId,
+                    mainChunks: mainChunks,
+                    resume: true,
+                    resumeDone: end >= totalMain
+                });
+                start = end;
+            } while (start < totalMain);
+
+            this.updateStatus('receiving', `📁 ${this.receiveManager.filename} の受信を再開します`);
+        } catch (error) {
+            console.error('❌ 再開報告の送信失敗:', error);
         }
     }
 
     /**
-     * 進捗更新
+     * 進捗更新（送信・受信は同時に進むことがあるため方向ごとに通知）
      */
-    async updateProgress(progress: number | null = null) {
-        // 送信側の統計
-        if (this.chunkManager) {
-            const stats = this.chunkManager.getStats();
-            progress = stats.progress.percentage;
+    async updateProgress(direction: TransferDirection) {
+        let stats: TransferStats;
+
+        if (direction === 'send') {
+            if (!this.chunkManager) return;
+
+            stats = {
+                ...this.chunkManager.getStats(),
+                adaptive: this.lastAdaptiveDecision,
+                compression: this.getCompressionStats(this.compressionStats.originalBytes, this.compressionStats.wireBytes)
+            };
 
             console.log('📊 送信側統計計算:', {
-                progress: progress?.toFixed(1) + '%',
+                progress: stats.progress.percentage.toFixed(1) + '%',
                 mainChunks: `${stats.mainChunksCompleted}/${stats.totalMainChunks}`,
                 subChunks: `${stats.chunksCompleted}/${stats.totalChunks}`,
                 failed: stats.failedChunks
             });
+        } else {
+            if (!this.receiveManager) return;
 
-            if (this.onStatsUpdate) {
-                this.onStatsUpdate(stats);
-            }
-        }
-        // 天才的な受信側統計
-        else if (this.receiveManager) {
-            const stats = this.getReceiveStats();
-            progress = stats.progress.percentage;
+            stats = this.getReceiveStats();
 
             console.log('📊 天才的な受信側統計更新:', {
-                progress: progress?.toFixed(1) + '%',
+                progress: stats.progress.percentage.toFixed(1) + '%',
                 mainChunks: `${stats.mainChunksCompleted}/${stats.totalMainChunks}`,
                 subChunks: `${stats.chunksCompleted}/${stats.totalChunks}`
             });
-
-            if (this.onStatsUpdate) {
-                this.onStatsUpdate(stats);
-            }
-
-            // 天才的な転送完了検出 - 構造化プロトコル
-            if (this.receiveManager.receivedChunks.size === this.receiveManager.totalSubChunks) {
-                console.log('🎯 天才的な転送完了！全チャンク受信完了 - ファイル再構築開始');
-                await this.reconstructReceivedFileSimple();
-            }
         }
 
-        if (this.onProgress && progress !== null) {
-            this.onProgress(progress);
+        if (this.onStatsUpdate) {
+            this.onStatsUpdate(stats, direction);
+        }
+        if (this.onProgress) {
+            this.onProgress(stats.progress.percentage, direction);
         }
     }
 
@@ -1142,7 +2886,8 @@ class WebRTCManagerV2 {
             totalChunks: this.receiveManager!.totalSubChunks || Math.ceil(this.receiveManager!.filesize / (1024 * 1024)), // 1MB単位で推定
             mainChunksCompleted: receivedMainChunks,
             totalMainChunks: this.receiveManager!.totalMainChunks || estimatedMainChunks,
-            failedChunks: 0 // 受信側では失敗は再送で解決されるため0
+            failedChunks: this.receiveManager!.failedChecks, // チェックサム不一致で再送要求した回数
+            compression: this.getCompressionStats(this.receiveManager!.originalBytes, this.receiveManager!.wireBytes)
         };
     }
 
@@ -1158,8 +2903,8 @@ class WebRTCManagerV2 {
     /**
      * WebRTC基本メソッド（Offer/Answerなど）
      */
-    async createOffer(): Promise<RTCSessionDescriptionInit> {
-        const offer = await this.pc!.createOffer();
+    async createOffer(iceRestart = false): Promise<RTCSessionDescriptionInit> {
+        const offer = await this.pc!.createOffer({ iceRestart });
         await this.pc!.setLocalDescription(offer);
         return offer;
     }
@@ -1168,11 +2913,78 @@ class WebRTCManagerV2 {
         await this.pc!.setRemoteDescription(offer);
         const answer = await this.pc!.createAnswer();
         await this.pc!.setLocalDescription(answer);
+        await this.updateSas();
         return answer;
     }
 
     async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
         await this.pc!.setRemoteDescription(description);
+        await this.updateSas();
+    }
+
+    /**
+     * SAS更新 - SDPが揃い、暗号化する相手とは鍵交換も終えた時点で計算する
+     * シグナリングサーバーがSDPや公開鍵を差し替えて中継していれば、双方の画面で値が一致しない
+     */
+    async updateSas(): Promise<void> {
+        const localFingerprint = this.extractFingerprint(this.pc?.localDescription?.sdp);
+        const remoteFingerprint = this.extractFingerprint(this.pc?.remoteDescription?.sdp);
+        if (!localFingerprint || !remoteFingerprint) return;
+
+        const session = this.e2eSession ? await this.e2eSession.catch(() => null) : null;
+        const keyTranscript = session?.transcript || null;
+        if (!keyTranscript && !(this.negotiated && this.negotiated.encryption.length === 0)) return;
+
+        // 双方で同じ値になるようホスト→参加者の順に並べる（公開鍵はE2ESession側で並べ済み）
+        const fingerprints = this.isHost
+            ? `${localFingerprint}|${remoteFingerprint}`
+            : `${remoteFingerprint}|${localFingerprint}`;
+        const transcript = `${fingerprints}|${keyTranscript || ''}`;
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`fast-transfer-v2/sas/${transcript}`));
+        const value = new DataView(digest).getUint32(0) % 1000000;
+        const sas = value.toString().padStart(6, '0').replace(/(\d{3})(\d{3})/, '$1 $2');
+
+        if (sas === this.sasCode) return; // ICE再起動では証明書は変わらない
+        this.sasCode = sas;
+        this.sasConfirmed = false; // 新しい鍵は照合し直す
+        console.log('🔏 確認コード（SAS）:', sas);
+        if (this.onSasReady) {
+            this.onSasReady(sas);
+        }
+    }
+
+    /**
+     * 確認コードが相手の画面と一致したことを記録（ユーザー操作）
+     */
+    confirmSas() {
+        if (!this.sasCode) return;
+        this.sasConfirmed = true;
+        console.log('🔏 確認コード照合済み:', this.sasCode);
+    }
+
+    /**
+     * 照合が必要な設定なら、照合前は送信を始めない（認証されていない鍵でファイル名・内容を送らない）
+     */
+    ensureSasConfirmed() {
+        if (this.requireSasConfirmation && !this.sasConfirmed) {
+            throw new Error('確認コードを相手の画面と照合してから送信してください');
+        }
+    }
+
+    /**
+     * 暗号化している相手にはチェックサムを鍵付きにして扱う（送受信双方で同じ変換をして比較する）
+     */
+    async protectChecksum(checksum: string): Promise<string> {
+        const session = this.e2eSession && this.negotiated?.encryption.length ? await this.e2eSession : null;
+        return session?.ready ? await session.macChecksum(checksum) : checksum;
+    }
+
+    /**
+     * SDPからDTLSフィンガープリントを取り出す（"sha-256 AB:CD:..."、大文字小文字は正規化）
+     */
+    extractFingerprint(sdp: string | undefined): string | null {
+        const match = sdp?.match(/^a=fingerprint:(\S+) ([0-9A-Fa-f:]+)/m);
+        return match ? `${match[1].toLowerCase()} ${match[2].toUpperCase()}` : null;
     }
 
     async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
@@ -1227,10 +3039,39 @@ class WebRTCManagerV2 {
      * クリーンアップ
      */
     destroy() {
+        // 送信途中のファイルは失敗として終了させる（送信ループ・最終判定の待機を解放する）
+        if (this.isTransferring) {
+            this.transferError = '接続が終了しました';
+        }
         this.isTransferring = false;
+        this.resumeTransfer();
+        this.notifyWindowWaiters();
+        if (this.fileResultWaiter) {
+            this.fileResultWaiter.reject(new Error('接続が終了しました'));
+            this.fileResultWaiter = null;
+        }
+
+        // 受信途中のファイルは破棄（相手は既に居ないので通知しない）
+        if (this.receiveManager && !this.receiveManager.completed) {
+            this.failReceive('接続が終了しました', false);
+        }
+
+        this.stopAdaptiveControl();
+        this.stopAckTimeoutCheck();
+        if (this.ackReportTimer) {
+            clearInterval(this.ackReportTimer);
+            this.ackReportTimer = null;
+        }
+        if (this.resumeReportTimer) {
+            clearTimeout(this.resumeReportTimer);
+            this.resumeReportTimer = null;
+        }
+
         if (this.dataChannel) {
             this.dataChannel.close();
         }
+        this.dataChannels.forEach(channel => channel?.close());
+        this.dataChannels = [];
         if (this.pc) {
             this.pc.close();
         }
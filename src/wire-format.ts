@@ -0,0 +1,104 @@
+/**
+ * バイナリフレーム形式（制御メッセージ・データ共通、バージョン付き）
+ *
+ * 全てのDataChannelメッセージは 32バイトのヘッダー + ペイロード で送る（little-endian）
+ *
+ *   offset size  field
+ *   0      4     magic       0x32565446（バイト列 'F' 'T' 'V' '2'）
+ *   4      1     version     WIRE_VERSION（一致しない相手とは通信しない）
+ *   5      1     type        1 = 制御（ペイロードはUTF-8のJSON） / 2 = データ（サブチャンク本体）
+ *   6      2     flags       bit0 = 再送 / bit1 = gzip圧縮 / bit2 = deflate圧縮（データのみ、offsetは圧縮前の位置）
+ *                             bit3 = AES-GCM暗号化（圧縮後に暗号化、ペイロード末尾16バイトは認証タグ）
+ *   8      4     fileNumber  データ: file-start-v2 で通知したファイル番号 / 制御: 0
+ *   12     4     chunkIndex  データ: ファイル全体での通しサブチャンク番号 / 制御: 0
+ *   16     8     offset      データ: ファイル内のバイト位置（64bit、4GB超のファイルに対応） / 制御: 0
+ *   24     4     length      ペイロード長
+ *   28     4     reserved    0
+ */
+import type { WireFrame, WireFrameHeader } from './types.js';
+
+const WIRE_MAGIC = 0x32565446;
+const WIRE_VERSION = 1;
+const FRAME_HEADER_SIZE = 32;
+
+const FrameType = {
+    CONTROL: 1,
+    DATA: 2
+} as const;
+
+const FRAME_FLAG_RETRANSMIT = 0x0001;
+const FRAME_FLAG_GZIP = 0x0002;
+const FRAME_FLAG_DEFLATE = 0x0004;
+const FRAME_FLAG_ENCRYPTED = 0x0008;
+
+/**
+ * フレームを組み立てる（ヘッダーとペイロードを1つのArrayBufferにまとめる）
+ */
+function encodeFrame(header: WireFrameHeader, payload: ArrayBuffer | Uint8Array): ArrayBuffer {
+    const body = payload instanceof Uint8Array ? payload : new Uint8Array(payload);
+    const buffer = new ArrayBuffer(FRAME_HEADER_SIZE + body.byteLength);
+    const view = new DataView(buffer);
+
+    view.setUint32(0, WIRE_MAGIC, true);
+    view.setUint8(4, WIRE_VERSION);
+    view.setUint8(5, header.type);
+    view.setUint16(6, header.flags || 0, true);
+    view.setUint32(8, header.fileNumber || 0, true);
+    view.setUint32(12, header.chunkIndex || 0, true);
+    view.setBigUint64(16, BigInt(header.offset || 0), true);
+    view.setUint32(24, body.byteLength, true);
+    new Uint8Array(buffer, FRAME_HEADER_SIZE).set(body);
+
+    return buffer;
+}
+
+/**
+ * フレームを解析（形式・バージョンが違う場合は例外）
+ */
+function decodeFrame(buffer: ArrayBuffer): WireFrame {
+    if (buffer.byteLength < FRAME_HEADER_SIZE) {
+        throw new Error(`フレームがヘッダー長に満たないため解析できません（${buffer.byteLength}B）`);
+    }
+
+    const view = new DataView(buffer);
+    if (view.getUint32(0, true) !== WIRE_MAGIC) {
+        throw new Error('フレームの識別子が一致しません（非対応のクライアントです）');
+    }
+
+    const version = view.getUint8(4);
+    if (version !== WIRE_VERSION) {
+        throw new Error(`プロトコルバージョンが一致しません（相手: v${version} / こちら: v${WIRE_VERSION}）`);
+    }
+
+    const type = view.getUint8(5);
+    if (type !== FrameType.CONTROL && type !== FrameType.DATA) {
+        throw new Error(`未知のフレーム種別です: ${type}`);
+    }
+
+    const length = view.getUint32(24, true);
+    if (FRAME_HEADER_SIZE + length !== buffer.byteLength) {
+        throw new Error(`ペイロード長が一致しません（ヘッダー: ${length}B / 実際: ${buffer.byteLength - FRAME_HEADER_SIZE}B）`);
+    }
+
+    return {
+        type: type,
+        flags: view.getUint16(6, true),
+        fileNumber: view.getUint32(8, true),
+        chunkIndex: view.getUint32(12, true),
+        offset: Number(view.getBigUint64(16, true)),
+        payload: buffer.slice(FRAME_HEADER_SIZE)
+    };
+}
+
+// グローバルエクスポート
+(window as any).WireFormat = {
+    VERSION: WIRE_VERSION,
+    HEADER_SIZE: FRAME_HEADER_SIZE,
+    FrameType,
+    FRAME_FLAG_RETRANSMIT,
+    FRAME_FLAG_GZIP,
+    FRAME_FLAG_DEFLATE,
+    FRAME_FLAG_ENCRYPTED,
+    encodeFrame,
+    decodeFrame
+};
@@ -0,0 +1,283 @@
+/**
+ * ZIPアーカイブ作成（無圧縮/deflate・ZIP64対応）
+ * ファイルが届くたびにストリームで読み込み、圧縮しながらシンクへ順に書き出す（全体をメモリに保持しない）
+ */
+import type { FileSink, ZipArchive as ZipArchiveInterface, ZipCompression } from './types.js';
+
+const ZIP64_LIMIT = 0xFFFFFFFF;
+// deflateは圧縮できないデータで僅かに膨らむため、手前からZIP64にしておく
+const ZIP64_THRESHOLD = 0xF0000000;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+    name: Uint8Array;
+    method: number;
+    size: number;
+    compressedSize: number;
+    crc: number;
+    offset: number;
+    time: number;
+    date: number;
+    zip64: boolean;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC32を逐次更新（初期値 0xFFFFFFFF、最後に反転する）
+ */
+function updateCrc32(crc: number, data: Uint8Array): number {
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return crc;
+}
+
+/**
+ * DOS形式の日時に変換
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+class ZipArchive implements ZipArchiveInterface {
+    private sink: FileSink;
+    private method: number;
+    private entries: ZipEntry[] = [];
+    private offset: number = 0;
+
+    constructor(sink: FileSink, compression: ZipCompression = 'store') {
+        this.sink = sink;
+        if (compression === 'deflate' && typeof CompressionStream === 'undefined') {
+            console.warn('⚠️ CompressionStream非対応のため無圧縮でZIPを作成します');
+            this.method = METHOD_STORE;
+        } else {
+            this.method = compression === 'deflate' ? METHOD_DEFLATE : METHOD_STORE;
+        }
+    }
+
+    get fileCount(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * ファイルを追加（パスはフォルダ区切りを含む相対パス）
+     * ヘッダーを仮書きしてからデータを流し込み、CRCとサイズが確定したらヘッダーを書き直す
+     */
+    async addFile(path: string, blob: Blob): Promise<void> {
+        const name = new TextEncoder().encode(window.splitRelativePath(path).join('/') || 'untitled');
+        const { time, date } = toDosDateTime(new Date());
+        const entry: ZipEntry = {
+            name,
+            method: this.method,
+            size: blob.size,
+            compressedSize: 0,
+            crc: 0,
+            offset: this.offset,
+            time,
+            date,
+            zip64: blob.size >= ZIP64_THRESHOLD || this.offset >= ZIP64_THRESHOLD
+        };
+
+        const header = this.createLocalHeader(entry);
+        const headerLength = header.byteLength;
+        await this.sink.write(entry.offset, header);
+
+        let crc = 0xFFFFFFFF;
+        let position = entry.offset + headerLength;
+        const source = blob.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                crc = updateCrc32(crc, chunk);
+                controller.enqueue(chunk);
+            }
+        }));
+        const output = entry.method === METHOD_DEFLATE
+            ? source.pipeThrough(new CompressionStream('deflate-raw') as ReadableWritablePair<Uint8Array, Uint8Array>)
+            : source;
+
+        const reader = output.getReader();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            await this.sink.write(position, value.slice().buffer);
+            position += value.byteLength;
+        }
+
+        entry.crc = (crc ^ 0xFFFFFFFF) >>> 0;
+        entry.compressedSize = position - entry.offset - headerLength;
+        await this.sink.write(entry.offset, this.createLocalHeader(entry));
+
+        this.entries.push(entry);
+        this.offset = position;
+        console.log(`🗜️ ZIPに追加: ${path} (${entry.compressedSize}/${entry.size}B)`);
+    }
+
+    /**
+     * セントラルディレクトリと終端レコードを書き足してZIPを確定
+     */
+    async finish(): Promise<Blob> {
+        const centralStart = this.offset;
+        let position = centralStart;
+        for (const entry of this.entries) {
+            const header = this.createCentralHeader(entry);
+            await this.sink.write(position, header);
+            position += header.byteLength;
+        }
+        const centralSize = position - centralStart;
+
+        const needsZip64 = this.entries.length >= 0xFFFF ||
+            centralStart >= ZIP64_LIMIT ||
+            centralSize >= ZIP64_LIMIT ||
+            this.entries.some(entry => entry.zip64);
+
+        if (needsZip64) {
+            const zip64End = this.createZip64End(centralStart, centralSize);
+            await this.sink.write(position, zip64End);
+            position += zip64End.byteLength;
+        }
+        await this.sink.write(position, this.createEnd(centralStart, centralSize, needsZip64));
+
+        console.log(`🗜️ ZIP作成完了: ${this.entries.length}ファイル`);
+        return await this.sink.close();
+    }
+
+    /**
+     * 作成途中のZIPを破棄
+     */
+    async abort(): Promise<void> {
+        await this.sink.abort();
+    }
+
+    /**
+     * ダウンロードを終えたZIPの一時領域を削除
+     */
+    async release(): Promise<void> {
+        await this.sink.release();
+    }
+
+    /**
+     * ローカルファイルヘッダー
+     */
+    private createLocalHeader(entry: ZipEntry): ArrayBuffer {
+        const extraLength = entry.zip64 ? 20 : 0;
+        const buffer = new ArrayBuffer(30 + entry.name.length + extraLength);
+        const view = new DataView(buffer);
+
+        view.setUint32(0, 0x04034b50, true);
+        view.setUint16(4, entry.zip64 ? 45 : 20, true);
+        view.setUint16(6, UTF8_FLAG, true);
+        view.setUint16(8, entry.method, true);
+        view.setUint16(10, entry.time, true);
+        view.setUint16(12, entry.date, true);
+        view.setUint32(14, entry.crc, true);
+        view.setUint32(18, entry.zip64 ? ZIP64_LIMIT : entry.compressedSize, true);
+        view.setUint32(22, entry.zip64 ? ZIP64_LIMIT : entry.size, true);
+        view.setUint16(26, entry.name.length, true);
+        view.setUint16(28, extraLength, true);
+        new Uint8Array(buffer, 30).set(entry.name);
+
+        if (entry.zip64) {
+            const extra = 30 + entry.name.length;
+            view.setUint16(extra, 0x0001, true);
+            view.setUint16(extra + 2, 16, true);
+            view.setBigUint64(extra + 4, BigInt(entry.size), true);
+            view.setBigUint64(extra + 12, BigInt(entry.compressedSize), true);
+        }
+
+        return buffer;
+    }
+
+    /**
+     * セントラルディレクトリヘッダー
+     */
+    private createCentralHeader(entry: ZipEntry): ArrayBuffer {
+        const extraLength = entry.zip64 ? 28 : 0;
+        const buffer = new ArrayBuffer(46 + entry.name.length + extraLength);
+        const view = new DataView(buffer);
+
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, 45, true);
+        view.setUint16(6, entry.zip64 ? 45 : 20, true);
+        view.setUint16(8, UTF8_FLAG, true);
+        view.setUint16(10, entry.method, true);
+        view.setUint16(12, entry.time, true);
+        view.setUint16(14, entry.date, true);
+        view.setUint32(16, entry.crc, true);
+        view.setUint32(20, entry.zip64 ? ZIP64_LIMIT : entry.compressedSize, true);
+        view.setUint32(24, entry.zip64 ? ZIP64_LIMIT : entry.size, true);
+        view.setUint16(28, entry.name.length, true);
+        view.setUint16(30, extraLength, true);
+        view.setUint32(42, entry.zip64 ? ZIP64_LIMIT : entry.offset, true);
+        new Uint8Array(buffer, 46).set(entry.name);
+
+        if (entry.zip64) {
+            const extra = 46 + entry.name.length;
+            view.setUint16(extra, 0x0001, true);
+            view.setUint16(extra + 2, 24, true);
+            view.setBigUint64(extra + 4, BigInt(entry.size), true);
+            view.setBigUint64(extra + 12, BigInt(entry.compressedSize), true);
+            view.setBigUint64(extra + 20, BigInt(entry.offset), true);
+        }
+
+        return buffer;
+    }
+
+    /**
+     * ZIP64終端レコード＋ロケーター
+     */
+    private createZip64End(centralStart: number, centralSize: number): ArrayBuffer {
+        const buffer = new ArrayBuffer(56 + 20);
+        const view = new DataView(buffer);
+        const recordOffset = centralStart + centralSize;
+
+        view.setUint32(0, 0x06064b50, true);
+        view.setBigUint64(4, BigInt(44), true);
+        view.setUint16(12, 45, true);
+        view.setUint16(14, 45, true);
+        view.setBigUint64(24, BigInt(this.entries.length), true);
+        view.setBigUint64(32, BigInt(this.entries.length), true);
+        view.setBigUint64(40, BigInt(centralSize), true);
+        view.setBigUint64(48, BigInt(centralStart), true);
+
+        view.setUint32(56, 0x07064b50, true);
+        view.setBigUint64(64, BigInt(recordOffset), true);
+        view.setUint32(72, 1, true);
+
+        return buffer;
+    }
+
+    /**
+     * 終端レコード
+     */
+    private createEnd(centralStart: number, centralSize: number, zip64: boolean): ArrayBuffer {
+        const buffer = new ArrayBuffer(22);
+        const view = new DataView(buffer);
+        const count = zip64 ? 0xFFFF : this.entries.length;
+
+        view.setUint32(0, 0x06054b50, true);
+        view.setUint16(8, count, true);
+        view.setUint16(10, count, true);
+        view.setUint32(12, zip64 ? ZIP64_LIMIT : centralSize, true);
+        view.setUint32(16, zip64 ? ZIP64_LIMIT : centralStart, true);
+
+        return buffer;
+    }
+}
+
+// グローバルエクスポート
+(window as any).ZipArchive = ZipArchive;